@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Activity, RefreshCw } from "lucide-react";
+import { useAuditLog, useUsers, type AuditEntry } from "@/data";
+
+const ALL = "all";
+
+// Bookkeeping columns that change on every write and say nothing about intent
+const IGNORED_FIELDS = new Set(["updated_at", "created_at", "rank", "score_reached_at"]);
+
+const TABLE_LABELS: Record<string, string> = {
+  leaderboard_members: "Member",
+  user_roles: "Role",
+};
+
+const ACTION_VARIANTS: Record<string, "secondary" | "outline" | "destructive"> = {
+  INSERT: "secondary",
+  UPDATE: "outline",
+  DELETE: "destructive",
+};
+
+const asRecord = (value: Json | null): Record<string, Json> =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, Json>) : {};
+
+const formatValue = (value: Json | undefined) =>
+  value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const describeSubject = (entry: AuditEntry) => {
+  const row = { ...asRecord(entry.before), ...asRecord(entry.after) };
+  if (entry.table_name === "user_roles") {
+    return `${formatValue(row.role)} role`;
+  }
+  return formatValue(row.name);
+};
+
+const describeChanges = (entry: AuditEntry) => {
+  const before = asRecord(entry.before);
+  const after = asRecord(entry.after);
+
+  if (entry.action === "INSERT") {
+    return Object.keys(after)
+      .filter((key) => !IGNORED_FIELDS.has(key) && key !== "id" && after[key] !== null)
+      .map((key) => `${key}: ${formatValue(after[key])}`);
+  }
+
+  if (entry.action === "DELETE") {
+    return [];
+  }
+
+  return Object.keys(after)
+    .filter((key) => !IGNORED_FIELDS.has(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`);
+};
+
+export default function ActivityLog() {
+  const [tableFilter, setTableFilter] = useState(ALL);
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [actorFilter, setActorFilter] = useState(ALL);
+
+  const { data: users = [] } = useUsers();
+  const actors = [...users].sort((a, b) => (a.full_name ?? "").localeCompare(b.full_name ?? ""));
+
+  const auditQuery = useAuditLog({
+    table: tableFilter === ALL ? undefined : tableFilter,
+    action: actionFilter === ALL ? undefined : actionFilter,
+    actorId: actorFilter === ALL ? undefined : actorFilter,
+  });
+  const entries = auditQuery.data?.pages.flat() ?? [];
+  const loading = auditQuery.isFetching;
+
+  useEffect(() => {
+    if (!auditQuery.error) return;
+    console.error('Error fetching activity:', auditQuery.error);
+  }, [auditQuery.error]);
+
+  return (
+    <Card className="bg-gradient-card border-border shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="w-5 h-5 text-primary" />
+            Activity
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Select value={tableFilter} onValueChange={setTableFilter}>
+              <SelectTrigger className="w-36 bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All records</SelectItem>
+                <SelectItem value="leaderboard_members">Members</SelectItem>
+                <SelectItem value="user_roles">Roles</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger className="w-36 bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                <SelectItem value="INSERT">Created</SelectItem>
+                <SelectItem value="UPDATE">Edited</SelectItem>
+                <SelectItem value="DELETE">Deleted</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={actorFilter} onValueChange={setActorFilter}>
+              <SelectTrigger className="w-48 bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                {actors.map((actor) => (
+                  <SelectItem key={actor.id} value={actor.id}>
+                    {actor.full_name || actor.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => auditQuery.refetch()}
+              className="border-border"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id} className="border-border align-top">
+                  <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                    {format(new Date(entry.created_at), "PP p")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {entry.actor?.full_name || entry.actor?.email || "System"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={ACTION_VARIANTS[entry.action] ?? "outline"}>
+                      {entry.action.toLowerCase()}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <span className="text-muted-foreground">{TABLE_LABELS[entry.table_name] ?? entry.table_name}</span>{" "}
+                    <span className="font-medium">{describeSubject(entry)}</span>
+                  </TableCell>
+                  <TableCell className="text-xs font-mono text-muted-foreground">
+                    {describeChanges(entry).map((change) => (
+                      <div key={change}>{change}</div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!loading && entries.length === 0 && (
+          <div className="text-center py-12">
+            <Activity className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-bold mb-2">No Activity</h3>
+            <p className="text-muted-foreground">No changes match these filters.</p>
+          </div>
+        )}
+
+        {auditQuery.hasNextPage && (
+          <div className="flex justify-center mt-4">
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={() => auditQuery.fetchNextPage()}
+              className="border-border"
+            >
+              Load more
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
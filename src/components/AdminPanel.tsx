@@ -1,11 +1,10 @@
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   Dialog, 
   DialogContent, 
@@ -13,6 +12,13 @@ import {
   DialogTitle, 
   DialogTrigger 
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -21,6 +27,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Plus, 
   Edit, 
@@ -32,81 +39,142 @@ import {
   Settings,
   Users,
   TrendingUp,
-  Crown
+  Crown,
+  LayoutList,
+  History,
+  CalendarCheck,
+  Upload,
+  SlidersHorizontal,
+  Activity,
+  UserCog,
+  Link2,
+  ClipboardCheck,
+  PlusCircle,
+  Target,
+  ArrowRightLeft,
+  UsersRound,
+  Award
 } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
-
-interface LeaderboardMember {
-  id: string;
-  name: string;
-  score: number;
-  avatar_url?: string;
-  rank: number;
-}
+import { useMemberFilters } from "@/hooks/use-member-filters";
+import ScoreHistory from "@/components/ScoreHistory";
+import ImportMembersDialog from "@/components/ImportMembersDialog";
+import ExportMenu from "@/components/ExportMenu";
+import BoardSettingsDialog from "@/components/BoardSettingsDialog";
+import ActivityLog from "@/components/ActivityLog";
+import UserManagement from "@/components/UserManagement";
+import ClaimsQueue from "@/components/ClaimsQueue";
+import LinkMemberDialog from "@/components/LinkMemberDialog";
+import BulkActionDialog, { type BulkAction } from "@/components/BulkActionDialog";
+import MemberAvatar from "@/components/MemberAvatar";
+import MemberFilterBar from "@/components/MemberFilterBar";
+import MemberTrash from "@/components/MemberTrash";
+import TeamManager from "@/components/TeamManager";
+import BadgeManager from "@/components/BadgeManager";
+import AvatarUpload from "@/components/AvatarUpload";
+import { formatRank, getTiedRanks } from "@/lib/ranks";
+import { applyMemberFilters } from "@/lib/search";
+import type { Permission } from "@/lib/permissions";
+import {
+  useAddMember,
+  useAssignTeam,
+  useBoards,
+  useCloseSeason,
+  useDeleteMember,
+  useLeaderboard,
+  useRestoreMembers,
+  useSeasons,
+  useTeams,
+  useUpdateMember,
+  useUpdateScore,
+  type Member,
+  type MemberUpdate,
+} from "@/data";
 
 interface EditingMember {
   id: string;
   name: string;
   score: number;
   avatar_url: string;
+  /** New photo to upload, or null to remove the current one */
+  avatar_image?: Blob | null;
+  secondary_score: string;
+  reason: string;
 }
 
-export default function AdminPanel() {
-  const [members, setMembers] = useState<LeaderboardMember[]>([]);
-  const [loading, setLoading] = useState(true);
+// Select items cannot have an empty value, so "no team" needs its own
+const NO_TEAM = "none";
+
+interface AdminPanelProps {
+  /** What the signed-in user may do; other actions are disabled */
+  permissions: Permission[];
+}
+
+export default function AdminPanel({ permissions }: AdminPanelProps) {
+  // Empty until a board is picked; the first board is managed by default
+  const [chosenBoardId, setChosenBoardId] = useState<string>("");
   const [editingMember, setEditingMember] = useState<EditingMember | null>(null);
+  const [historyMember, setHistoryMember] = useState<Member | null>(null);
+  const [linkingMember, setLinkingMember] = useState<Member | null>(null);
   const [newMember, setNewMember] = useState({
     name: "",
-    score: "",
-    avatar_url: ""
+    score: ""
   });
+  const [newMemberAvatar, setNewMemberAvatar] = useState<Blob | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [boardDialogMode, setBoardDialogMode] = useState<"create" | "edit" | null>(null);
+  const [seasonClose, setSeasonClose] = useState({ nextName: "", carryOver: "0" });
+  const [isSeasonDialogOpen, setIsSeasonDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // The selection is captured when a bulk dialog opens, so it stays put while the action runs
+  const [bulkAction, setBulkAction] = useState<{ action: BulkAction; members: Member[] } | null>(null);
   const { toast } = useToast();
 
-  useEffect(() => {
-    fetchMembers();
-  }, []);
+  const { data: boards = [], isLoading: boardsLoading, error: boardsError } = useBoards();
+  const selectedBoardId = chosenBoardId || boards[0]?.id || "";
+  const selectedBoard = boards.find((b) => b.id === selectedBoardId);
+  const membersQuery = useLeaderboard(selectedBoardId);
+  const { data: members = [] } = membersQuery;
+  const { filters, setFilters } = useMemberFilters();
+  const visibleMembers = applyMemberFilters(members, filters);
+  // Bulk actions only touch selected members the current filters still show
+  const selectedMembers = visibleMembers.filter((m) => selectedIds.has(m.id));
+  const allVisibleSelected = visibleMembers.length > 0 && selectedMembers.length === visibleMembers.length;
+  const { data: seasons = [] } = useSeasons(selectedBoardId);
+  const currentSeason = seasons.find((season) => !season.ended_at) ?? null;
+  const loading = boardsLoading || membersQuery.isLoading;
+  const can = (permission: Permission) => permissions.includes(permission);
 
-  const fetchMembers = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('leaderboard_members')
-        .select('*')
-        .order('score', { ascending: false });
+  const addMember = useAddMember(selectedBoardId);
+  const updateMember = useUpdateMember(selectedBoardId);
+  const updateScore = useUpdateScore(selectedBoardId);
+  const deleteMember = useDeleteMember(selectedBoardId);
+  const restoreMembers = useRestoreMembers(selectedBoardId);
+  const assignTeam = useAssignTeam(selectedBoardId);
+  const { data: teams = [] } = useTeams(selectedBoardId);
+  const closeSeason = useCloseSeason(selectedBoardId);
 
-      if (error) throw error;
-      setMembers(data || []);
-    } catch (error) {
-      console.error('Error fetching members:', error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch leaderboard members",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (!boardsError) return;
+    console.error('Error fetching boards:', boardsError);
+    toast({
+      title: "Error",
+      description: "Failed to fetch leaderboards",
+      variant: "destructive"
+    });
+  }, [boardsError, toast]);
 
-  const updateRanks = async () => {
-    try {
-      // Sort members by score and update ranks
-      const sortedMembers = [...members].sort((a, b) => b.score - a.score);
-      
-      for (let i = 0; i < sortedMembers.length; i++) {
-        const { error } = await supabase
-          .from('leaderboard_members')
-          .update({ rank: i + 1 })
-          .eq('id', sortedMembers[i].id);
-        
-        if (error) throw error;
-      }
-      
-      await fetchMembers();
-    } catch (error) {
-      console.error('Error updating ranks:', error);
-    }
-  };
+  useEffect(() => {
+    if (!membersQuery.error) return;
+    console.error('Error fetching members:', membersQuery.error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch leaderboard members",
+      variant: "destructive"
+    });
+  }, [membersQuery.error, toast]);
 
   const handleAddMember = async () => {
     try {
@@ -120,19 +188,9 @@ export default function AdminPanel() {
         return;
       }
 
-      const { error } = await supabase
-        .from('leaderboard_members')
-        .insert([{
-          name: newMember.name,
-          score: score,
-          avatar_url: newMember.avatar_url || null,
-          rank: members.length + 1 // Temporary rank, will be updated
-        }]);
-
-      if (error) throw error;
-
-      await updateRanks();
-      setNewMember({ name: "", score: "", avatar_url: "" });
+      await addMember.mutateAsync({ name: newMember.name, score, avatar: newMemberAvatar });
+      setNewMember({ name: "", score: "" });
+      setNewMemberAvatar(null);
       setIsAddDialogOpen(false);
       
       toast({
@@ -150,31 +208,52 @@ export default function AdminPanel() {
     }
   };
 
-  const handleEditMember = async (member: LeaderboardMember) => {
+  const handleEditMember = async (member: Member) => {
     setEditingMember({
       id: member.id,
       name: member.name,
       score: member.score,
-      avatar_url: member.avatar_url || ""
+      avatar_url: member.avatar_url || "",
+      secondary_score: member.secondary_score?.toString() ?? "",
+      reason: ""
     });
   };
 
   const handleSaveEdit = async () => {
     if (!editingMember) return;
 
+    const original = members.find((m) => m.id === editingMember.id);
+    // The details and the score are separate writes, so the first can stick when the second fails
+    let detailsSaved = false;
+
     try {
-      const { error } = await supabase
-        .from('leaderboard_members')
-        .update({
-          name: editingMember.name,
-          score: editingMember.score,
-          avatar_url: editingMember.avatar_url || null
-        })
-        .eq('id', editingMember.id);
+      // Only send the columns this user may change; the database rejects the rest
+      const updates: MemberUpdate = {};
+      if (can('edit_member_details')) {
+        updates.name = editingMember.name;
+      }
+      if (can('adjust_scores')) {
+        updates.secondary_score = editingMember.secondary_score === ""
+          ? null
+          : parseInt(editingMember.secondary_score) || 0;
+      }
 
-      if (error) throw error;
+      await updateMember.mutateAsync({
+        id: editingMember.id,
+        updates,
+        avatar: can('edit_member_details') ? editingMember.avatar_image : undefined
+      });
+      detailsSaved = true;
+
+      // Score changes go through the ledger, which updates the member row
+      if (can('adjust_scores') && original && original.score !== editingMember.score) {
+        await updateScore.mutateAsync({
+          memberId: editingMember.id,
+          score: editingMember.score,
+          reason: editingMember.reason.trim() || null
+        });
+      }
 
-      await updateRanks();
       setEditingMember(null);
       
       toast({
@@ -186,27 +265,27 @@ export default function AdminPanel() {
       console.error('Error updating member:', error);
       toast({
         title: "Error",
-        description: "Failed to update member",
+        description: detailsSaved
+          ? "Saved the member's details, but failed to change the score"
+          : "Failed to update member",
         variant: "destructive"
       });
     }
   };
 
-  const handleDeleteMember = async (id: string) => {
+  const handleDeleteMember = async (member: Member) => {
     try {
-      const { error } = await supabase
-        .from('leaderboard_members')
-        .delete()
-        .eq('id', id);
+      await deleteMember.mutateAsync(member.id);
 
-      if (error) throw error;
-
-      await updateRanks();
-      
       toast({
         title: "Success",
-        description: "Member deleted successfully!",
-        variant: "default"
+        description: `${member.name} moved to the trash`,
+        variant: "default",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => handleRestoreMember(member)}>
+            Undo
+          </ToastAction>
+        )
       });
     } catch (error) {
       console.error('Error deleting member:', error);
@@ -218,16 +297,102 @@ export default function AdminPanel() {
     }
   };
 
+  const handleRestoreMember = async (member: Member) => {
+    try {
+      await restoreMembers.mutateAsync([member.id]);
+    } catch (error) {
+      console.error('Error restoring member:', error);
+      toast({
+        title: "Error",
+        description: `Failed to restore ${member.name}; it is still in the trash`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleAssignTeam = async (member: Member, teamId: string | null) => {
+    try {
+      await assignTeam.mutateAsync({ memberId: member.id, teamId });
+    } catch (error) {
+      console.error('Error assigning team:', error);
+      toast({
+        title: "Error",
+        description: `Failed to change ${member.name}'s team`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSelectBoard = (boardId: string) => {
+    setChosenBoardId(boardId);
+    setEditingMember(null);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      visibleMembers.forEach((m) => (selected ? next.add(m.id) : next.delete(m.id)));
+      return next;
+    });
+  };
+
+  const handleCloseSeason = async () => {
+    const carryOver = parseInt(seasonClose.carryOver);
+    if (isNaN(carryOver) || carryOver < 0 || carryOver > 100) {
+      toast({
+        title: "Invalid Carry-over",
+        description: "Please enter a percentage between 0 and 100",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await closeSeason.mutateAsync({ carryOverPercent: carryOver, nextName: seasonClose.nextName });
+      setSeasonClose({ nextName: "", carryOver: "0" });
+      setIsSeasonDialogOpen(false);
+
+      toast({
+        title: "Season closed",
+        description: `${currentSeason?.name || "The season"} has been archived and a new season has started.`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error closing season:', error);
+      toast({
+        title: "Error",
+        description: "Failed to close season",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const tiedRanks = getTiedRanks(members);
+  const usesSecondaryScore =
+    selectedBoard?.rank_style === 'ordinal' && selectedBoard?.tie_breaker === 'secondary_score';
+
   const getRankBadge = (rank: number) => {
+    const tied = tiedRanks.has(rank);
+    const tieLabel = tied ? ` (${formatRank(rank, true)})` : "";
     switch (rank) {
       case 1:
-        return <Badge className="bg-gradient-gold text-primary-foreground">🥇 Champion</Badge>;
+        return <Badge className="bg-gradient-gold text-primary-foreground">🥇 Champion{tieLabel}</Badge>;
       case 2:
-        return <Badge className="bg-gradient-silver text-secondary-foreground">🥈 Runner-up</Badge>;
+        return <Badge className="bg-gradient-silver text-secondary-foreground">🥈 Runner-up{tieLabel}</Badge>;
       case 3:
-        return <Badge className="bg-gradient-bronze text-bronze-foreground">🥉 Third Place</Badge>;
+        return <Badge className="bg-gradient-bronze text-bronze-foreground">🥉 Third Place{tieLabel}</Badge>;
       default:
-        return <Badge variant="outline">#{rank}</Badge>;
+        return <Badge variant="outline">{formatRank(rank, tied)}</Badge>;
     }
   };
 
@@ -253,241 +418,654 @@ export default function AdminPanel() {
               <h1 className="text-4xl font-bold bg-gradient-gold bg-clip-text text-transparent">
                 Admin Panel
               </h1>
-              <p className="text-muted-foreground">Manage leaderboard members and scores</p>
+              <p className="text-muted-foreground">
+                Manage leaderboard members and scores
+                {currentSeason && ` · ${currentSeason.name}`}
+              </p>
             </div>
           </div>
           
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-gradient-gold text-primary-foreground hover:scale-105 transition-transform">
-                <Plus className="w-4 h-4 mr-2" />
-                Add Member
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="bg-card border-border">
-              <DialogHeader>
-                <DialogTitle className="flex items-center gap-2">
-                  <UserPlus className="w-5 h-5" />
-                  Add New Member
-                </DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="name">Name</Label>
-                  <Input
-                    id="name"
-                    value={newMember.name}
-                    onChange={(e) => setNewMember({ ...newMember, name: e.target.value })}
-                    placeholder="Enter member name"
-                    className="bg-input border-border"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="score">Score</Label>
-                  <Input
-                    id="score"
-                    type="number"
-                    value={newMember.score}
-                    onChange={(e) => setNewMember({ ...newMember, score: e.target.value })}
-                    placeholder="Enter score"
-                    className="bg-input border-border"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="avatar">Avatar URL (Optional)</Label>
-                  <Input
-                    id="avatar"
-                    value={newMember.avatar_url}
-                    onChange={(e) => setNewMember({ ...newMember, avatar_url: e.target.value })}
-                    placeholder="Enter avatar URL"
-                    className="bg-input border-border"
-                  />
-                </div>
-                <div className="flex gap-2 pt-4">
-                  <Button 
-                    onClick={handleAddMember}
-                    className="flex-1 bg-gradient-gold text-primary-foreground"
-                  >
-                    <Save className="w-4 h-4 mr-2" />
-                    Add Member
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    onClick={() => setIsAddDialogOpen(false)}
-                    className="border-border"
-                  >
-                    Cancel
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
-        </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={selectedBoardId} onValueChange={handleSelectBoard}>
+              <SelectTrigger className="w-56 bg-input border-border">
+                <SelectValue placeholder="Select a board" />
+              </SelectTrigger>
+              <SelectContent>
+                {boards.map((board) => (
+                  <SelectItem key={board.id} value={board.id}>
+                    {board.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
 
-        {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          <Card className="bg-gradient-card border-border shadow-card">
-            <CardContent className="p-6">
-              <div className="flex items-center gap-4">
-                <Users className="w-12 h-12 text-primary" />
-                <div>
-                  <p className="text-sm text-muted-foreground">Total Members</p>
-                  <p className="text-3xl font-bold">{members.length}</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card className="bg-gradient-card border-border shadow-card">
-            <CardContent className="p-6">
-              <div className="flex items-center gap-4">
-                <TrendingUp className="w-12 h-12 text-success" />
-                <div>
-                  <p className="text-sm text-muted-foreground">Highest Score</p>
-                  <p className="text-3xl font-bold">
-                    {members.length > 0 ? members[0]?.score?.toLocaleString() : 0}
+            <Button
+              variant="outline"
+              disabled={!selectedBoard || !can('manage_boards')}
+              onClick={() => setBoardDialogMode("edit")}
+              className="border-border"
+            >
+              <SlidersHorizontal className="w-4 h-4 mr-2" />
+              Board Settings
+            </Button>
+
+            <Button
+              variant="outline"
+              disabled={!can('manage_boards')}
+              onClick={() => setBoardDialogMode("create")}
+              className="border-border"
+            >
+              <LayoutList className="w-4 h-4 mr-2" />
+              New Board
+            </Button>
+
+            <Dialog open={isSeasonDialogOpen} onOpenChange={setIsSeasonDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  disabled={!currentSeason || !can('manage_boards')}
+                  className="border-border"
+                >
+                  <CalendarCheck className="w-4 h-4 mr-2" />
+                  Close Season
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="bg-card border-border">
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-2">
+                    <CalendarCheck className="w-5 h-5" />
+                    Close {currentSeason?.name}
+                  </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    The current ranks and scores of {members.length} members will be archived,
+                    then every score is reset for the next season.
                   </p>
+                  <div>
+                    <Label htmlFor="next-season-name">Next Season Name (Optional)</Label>
+                    <Input
+                      id="next-season-name"
+                      value={seasonClose.nextName}
+                      onChange={(e) => setSeasonClose({ ...seasonClose, nextName: e.target.value })}
+                      placeholder={currentSeason ? `Season ${currentSeason.number + 1}` : ""}
+                      className="bg-input border-border"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="carry-over">Carry-over (%)</Label>
+                    <Input
+                      id="carry-over"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={seasonClose.carryOver}
+                      onChange={(e) => setSeasonClose({ ...seasonClose, carryOver: e.target.value })}
+                      className="bg-input border-border"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      0 starts everyone from zero; 100 keeps every score.
+                    </p>
+                  </div>
+                  <div className="flex gap-2 pt-4">
+                    <Button 
+                      variant="destructive"
+                      onClick={handleCloseSeason}
+                      className="flex-1"
+                    >
+                      <CalendarCheck className="w-4 h-4 mr-2" />
+                      Close Season
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setIsSeasonDialogOpen(false)}
+                      className="border-border"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card className="bg-gradient-card border-border shadow-card">
-            <CardContent className="p-6">
-              <div className="flex items-center gap-4">
-                <Crown className="w-12 h-12 text-primary animate-glow-pulse" />
-                <div>
-                  <p className="text-sm text-muted-foreground">Current Leader</p>
-                  <p className="text-xl font-bold truncate">
-                    {members.length > 0 ? members[0]?.name : 'None'}
-                  </p>
+              </DialogContent>
+            </Dialog>
+
+            <Button
+              variant="outline"
+              disabled={!selectedBoardId || !can('manage_members')}
+              onClick={() => setIsImportDialogOpen(true)}
+              className="border-border"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+
+            {selectedBoard && (
+              <ExportMenu
+                boardSlug={selectedBoard.slug}
+                rows={members}
+                className="border-border"
+              />
+            )}
+
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  disabled={!selectedBoardId || !can('manage_members')}
+                  className="bg-gradient-gold text-primary-foreground hover:scale-105 transition-transform"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Member
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="bg-card border-border">
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-2">
+                    <UserPlus className="w-5 h-5" />
+                    Add New Member
+                  </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="name">Name</Label>
+                    <Input
+                      id="name"
+                      value={newMember.name}
+                      onChange={(e) => setNewMember({ ...newMember, name: e.target.value })}
+                      placeholder="Enter member name"
+                      className="bg-input border-border"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="score">Score</Label>
+                    <Input
+                      id="score"
+                      type="number"
+                      value={newMember.score}
+                      onChange={(e) => setNewMember({ ...newMember, score: e.target.value })}
+                      placeholder="Enter score"
+                      className="bg-input border-border"
+                    />
+                  </div>
+                  <div>
+                    <Label>Photo (Optional)</Label>
+                    <AvatarUpload
+                      name={newMember.name}
+                      image={newMemberAvatar}
+                      onImageChange={setNewMemberAvatar}
+                    />
+                  </div>
+                  <div className="flex gap-2 pt-4">
+                    <Button 
+                      onClick={handleAddMember}
+                      className="flex-1 bg-gradient-gold text-primary-foreground"
+                    >
+                      <Save className="w-4 h-4 mr-2" />
+                      Add Member
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setIsAddDialogOpen(false)}
+                      className="border-border"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
-        {/* Members Table */}
-        <Card className="bg-gradient-card border-border shadow-card">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Trophy className="w-5 h-5 text-primary" />
-              Leaderboard Members
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow className="border-border">
-                    <TableHead>Rank</TableHead>
-                    <TableHead>Member</TableHead>
-                    <TableHead>Score</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {members.map((member) => (
-                    <TableRow key={member.id} className="border-border">
-                      <TableCell>
-                        {getRankBadge(member.rank)}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          <Avatar className="w-10 h-10 border border-border">
-                            <AvatarImage src={member.avatar_url} alt={member.name} />
-                            <AvatarFallback className="bg-muted">
-                              {member.name.split(' ').map(n => n[0]).join('')}
-                            </AvatarFallback>
-                          </Avatar>
-                          {editingMember?.id === member.id ? (
-                            <Input
-                              value={editingMember.name}
-                              onChange={(e) => setEditingMember({
-                                ...editingMember,
-                                name: e.target.value
-                              })}
-                              className="w-40 bg-input border-border"
+        <Tabs defaultValue="members">
+          <TabsList className="mb-6">
+            <TabsTrigger value="members" className="flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Members
+            </TabsTrigger>
+            {can('manage_members') && (
+              <TabsTrigger value="teams" className="flex items-center gap-2">
+                <UsersRound className="w-4 h-4" />
+                Teams
+              </TabsTrigger>
+            )}
+            {can('manage_boards') && (
+              <TabsTrigger value="badges" className="flex items-center gap-2">
+                <Award className="w-4 h-4" />
+                Badges
+              </TabsTrigger>
+            )}
+            {can('manage_members') && (
+              <TabsTrigger value="trash" className="flex items-center gap-2">
+                <Trash2 className="w-4 h-4" />
+                Trash
+              </TabsTrigger>
+            )}
+            {can('review_claims') && (
+              <TabsTrigger value="claims" className="flex items-center gap-2">
+                <ClipboardCheck className="w-4 h-4" />
+                Claims
+              </TabsTrigger>
+            )}
+            {can('manage_users') && (
+              <>
+                <TabsTrigger value="activity" className="flex items-center gap-2">
+                  <Activity className="w-4 h-4" />
+                  Activity
+                </TabsTrigger>
+                <TabsTrigger value="users" className="flex items-center gap-2">
+                  <UserCog className="w-4 h-4" />
+                  Users
+                </TabsTrigger>
+              </>
+            )}
+          </TabsList>
+
+          <TabsContent value="members">
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <Card className="bg-gradient-card border-border shadow-card">
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-4">
+                    <Users className="w-12 h-12 text-primary" />
+                    <div>
+                      <p className="text-sm text-muted-foreground">Total Members</p>
+                      <p className="text-3xl font-bold">{members.length}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+              
+              <Card className="bg-gradient-card border-border shadow-card">
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-4">
+                    <TrendingUp className="w-12 h-12 text-success" />
+                    <div>
+                      <p className="text-sm text-muted-foreground">
+                        {selectedBoard?.scoring_direction === 'lower_wins' ? "Best Score" : "Highest Score"}
+                      </p>
+                      <p className="text-3xl font-bold">
+                        {members.length > 0 ? members[0]?.score?.toLocaleString() : 0}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+              
+              <Card className="bg-gradient-card border-border shadow-card">
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-4">
+                    <Crown className="w-12 h-12 text-primary animate-glow-pulse" />
+                    <div>
+                      <p className="text-sm text-muted-foreground">Current Leader</p>
+                      <p className="text-xl font-bold truncate">
+                        {members.length > 0 ? members[0]?.name : 'None'}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Members Table */}
+            <Card className="bg-gradient-card border-border shadow-card">
+              <CardHeader>
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                  <CardTitle className="flex items-center gap-2">
+                    <Trophy className="w-5 h-5 text-primary" />
+                    {selectedBoard ? `${selectedBoard.name} Members` : "Leaderboard Members"}
+                  </CardTitle>
+                  <MemberFilterBar filters={filters} onChange={setFilters} />
+                </div>
+              </CardHeader>
+              <CardContent>
+                {selectedMembers.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-4 rounded-md border border-border bg-muted/40 p-3">
+                    <span className="text-sm font-medium mr-2">{selectedMembers.length} selected</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!can('adjust_scores')}
+                      onClick={() => setBulkAction({ action: "add", members: selectedMembers })}
+                      className="border-border"
+                    >
+                      <PlusCircle className="w-4 h-4 mr-2" />
+                      Add Points
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!can('adjust_scores')}
+                      onClick={() => setBulkAction({ action: "set", members: selectedMembers })}
+                      className="border-border"
+                    >
+                      <Target className="w-4 h-4 mr-2" />
+                      Set Score
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!can('manage_members') || boards.length < 2}
+                      onClick={() => setBulkAction({ action: "move", members: selectedMembers })}
+                      className="border-border"
+                    >
+                      <ArrowRightLeft className="w-4 h-4 mr-2" />
+                      Move
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={!can('manage_members')}
+                      onClick={() => setBulkAction({ action: "delete", members: selectedMembers })}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setSelectedIds(new Set())}
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Clear Selection
+                    </Button>
+                  </div>
+                )}
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-border">
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allVisibleSelected ? true : selectedMembers.length > 0 ? "indeterminate" : false}
+                            onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                            aria-label="Select all shown members"
+                          />
+                        </TableHead>
+                        <TableHead>Rank</TableHead>
+                        <TableHead>Member</TableHead>
+                        <TableHead>Score</TableHead>
+                        {usesSecondaryScore && <TableHead>Tie-breaker</TableHead>}
+                        {teams.length > 0 && <TableHead>Team</TableHead>}
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleMembers.map((member) => (
+                        <TableRow
+                          key={member.id}
+                          data-state={selectedIds.has(member.id) ? "selected" : undefined}
+                          className="border-border"
+                        >
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.has(member.id)}
+                              onCheckedChange={(checked) => toggleSelected(member.id, checked === true)}
+                              aria-label={`Select ${member.name}`}
                             />
-                          ) : (
-                            <span className="font-medium">{member.name}</span>
+                          </TableCell>
+                          <TableCell>
+                            {getRankBadge(member.rank)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              {editingMember?.id === member.id && can('edit_member_details') ? (
+                                <AvatarUpload
+                                  name={editingMember.name}
+                                  currentUrl={member.avatar_url}
+                                  image={editingMember.avatar_image}
+                                  onImageChange={(image) => setEditingMember({
+                                    ...editingMember,
+                                    avatar_image: image
+                                  })}
+                                  className="w-10 h-10 border border-border"
+                                />
+                              ) : (
+                                <MemberAvatar
+                                  name={member.name}
+                                  src={member.avatar_url}
+                                  className="w-10 h-10 border border-border"
+                                />
+                              )}
+                              {editingMember?.id === member.id && can('edit_member_details') ? (
+                                <Input
+                                  value={editingMember.name}
+                                  onChange={(e) => setEditingMember({
+                                    ...editingMember,
+                                    name: e.target.value
+                                  })}
+                                  className="w-40 bg-input border-border"
+                                />
+                              ) : (
+                                <span className="font-medium">{member.name}</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {editingMember?.id === member.id && can('adjust_scores') ? (
+                              <div className="flex flex-col gap-2">
+                                <Input
+                                  type="number"
+                                  value={editingMember.score}
+                                  onChange={(e) => setEditingMember({
+                                    ...editingMember,
+                                    score: parseInt(e.target.value) || 0
+                                  })}
+                                  className="w-24 bg-input border-border"
+                                />
+                                {editingMember.score !== member.score && (
+                                  <Input
+                                    value={editingMember.reason}
+                                    onChange={(e) => setEditingMember({
+                                      ...editingMember,
+                                      reason: e.target.value
+                                    })}
+                                    placeholder="Reason for change"
+                                    className="w-48 bg-input border-border"
+                                  />
+                                )}
+                              </div>
+                            ) : (
+                              <span className="font-bold text-success">
+                                {member.score.toLocaleString()}
+                              </span>
+                            )}
+                          </TableCell>
+                          {usesSecondaryScore && (
+                            <TableCell>
+                              {editingMember?.id === member.id && can('adjust_scores') ? (
+                                <Input
+                                  type="number"
+                                  value={editingMember.secondary_score}
+                                  onChange={(e) => setEditingMember({
+                                    ...editingMember,
+                                    secondary_score: e.target.value
+                                  })}
+                                  className="w-24 bg-input border-border"
+                                />
+                              ) : (
+                                <span className="text-muted-foreground">
+                                  {member.secondary_score?.toLocaleString() ?? "—"}
+                                </span>
+                              )}
+                            </TableCell>
                           )}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        {editingMember?.id === member.id ? (
-                          <Input
-                            type="number"
-                            value={editingMember.score}
-                            onChange={(e) => setEditingMember({
-                              ...editingMember,
-                              score: parseInt(e.target.value) || 0
-                            })}
-                            className="w-24 bg-input border-border"
-                          />
-                        ) : (
-                          <span className="font-bold text-success">
-                            {member.score.toLocaleString()}
-                          </span>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex gap-2">
-                          {editingMember?.id === member.id ? (
-                            <>
-                              <Button
-                                size="sm"
-                                onClick={handleSaveEdit}
-                                className="bg-success text-success-foreground"
-                              >
-                                <Save className="w-4 h-4" />
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => setEditingMember(null)}
-                                className="border-border"
-                              >
-                                <X className="w-4 h-4" />
-                              </Button>
-                            </>
-                          ) : (
-                            <>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => handleEditMember(member)}
-                                className="border-border hover:bg-accent"
+                          {teams.length > 0 && (
+                            <TableCell>
+                              <Select
+                                value={member.team_id ?? NO_TEAM}
+                                onValueChange={(value) => handleAssignTeam(member, value === NO_TEAM ? null : value)}
+                                disabled={!can('manage_members')}
                               >
-                                <Edit className="w-4 h-4" />
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                onClick={() => handleDeleteMember(member.id)}
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
-                            </>
+                                <SelectTrigger className="w-40 bg-input border-border">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={NO_TEAM}>No team</SelectItem>
+                                  {teams.map((team) => (
+                                    <SelectItem key={team.id} value={team.id}>
+                                      {team.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
                           )}
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-            
-            {members.length === 0 && (
-              <div className="text-center py-12">
-                <Users className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-xl font-bold mb-2">No Members Yet</h3>
-                <p className="text-muted-foreground">Add your first leaderboard member to get started.</p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              {editingMember?.id === member.id ? (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    onClick={handleSaveEdit}
+                                    className="bg-success text-success-foreground"
+                                  >
+                                    <Save className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setEditingMember(null)}
+                                    className="border-border"
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </Button>
+                                </>
+                              ) : (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setHistoryMember(member)}
+                                    className="border-border hover:bg-accent"
+                                  >
+                                    <History className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={!can('adjust_scores') && !can('edit_member_details')}
+                                    onClick={() => handleEditMember(member)}
+                                    className="border-border hover:bg-accent"
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={!can('manage_members')}
+                                    onClick={() => setLinkingMember(member)}
+                                    className={`border-border hover:bg-accent ${member.profile_id ? "text-primary" : ""}`}
+                                  >
+                                    <Link2 className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    disabled={!can('manage_members')}
+                                    onClick={() => handleDeleteMember(member)}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                
+                {members.length === 0 && (
+                  <div className="text-center py-12">
+                    <Users className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-xl font-bold mb-2">No Members Yet</h3>
+                    <p className="text-muted-foreground">Add your first leaderboard member to get started.</p>
+                  </div>
+                )}
+
+                {members.length > 0 && visibleMembers.length === 0 && (
+                  <p className="text-center text-muted-foreground py-12">No members match these filters.</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {can('manage_members') && selectedBoard && (
+            <TabsContent value="teams">
+              <TeamManager board={selectedBoard} members={members} />
+            </TabsContent>
+          )}
+
+          {can('manage_boards') && selectedBoard && (
+            <TabsContent value="badges">
+              <BadgeManager board={selectedBoard} />
+            </TabsContent>
+          )}
+
+          {can('manage_members') && selectedBoard && (
+            <TabsContent value="trash">
+              <MemberTrash board={selectedBoard} />
+            </TabsContent>
+          )}
+
+          {can('review_claims') && (
+            <TabsContent value="claims">
+              <ClaimsQueue />
+            </TabsContent>
+          )}
+
+          {can('manage_users') && (
+            <>
+              <TabsContent value="activity">
+                <ActivityLog />
+              </TabsContent>
+
+              <TabsContent value="users">
+                <UserManagement />
+              </TabsContent>
+            </>
+          )}
+        </Tabs>
       </div>
+
+      <BoardSettingsDialog
+        board={boardDialogMode === "edit" ? selectedBoard : undefined}
+        open={boardDialogMode !== null}
+        onOpenChange={(open) => !open && setBoardDialogMode(null)}
+        onSaved={handleSelectBoard}
+      />
+
+      {selectedBoard && (
+        <BulkActionDialog
+          action={bulkAction?.action ?? null}
+          members={bulkAction?.members ?? []}
+          board={selectedBoard}
+          boards={boards}
+          onOpenChange={(open) => !open && setBulkAction(null)}
+          onDone={() => setSelectedIds(new Set())}
+        />
+      )}
+
+      <ImportMembersDialog
+        boardId={selectedBoardId}
+        existingMembers={members}
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+      />
+
+      <LinkMemberDialog
+        boardId={selectedBoardId}
+        member={linkingMember}
+        open={!!linkingMember}
+        onOpenChange={(open) => !open && setLinkingMember(null)}
+      />
+
+      <ScoreHistory
+        member={historyMember}
+        open={!!historyMember}
+        onOpenChange={(open) => !open && setHistoryMember(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,11 +1,11 @@
 import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { LogIn, UserPlus, Crown, Lock } from "lucide-react";
+import { backend } from "@/data";
 
 interface AuthFormProps {
   onAuthSuccess: () => void;
@@ -25,27 +25,14 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
 
     try {
       if (isLogin) {
-        const { error } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-        if (error) throw error;
+        await backend.auth.signIn(email, password);
         
         toast({
           title: "Welcome back!",
           description: "You have successfully signed in.",
         });
       } else {
-        const { error } = await supabase.auth.signUp({
-          email,
-          password,
-          options: {
-            data: {
-              full_name: fullName,
-            },
-          },
-        });
-        if (error) throw error;
+        await backend.auth.signUp(email, password, fullName);
         
         toast({
           title: "Account created!",
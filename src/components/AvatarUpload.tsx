@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import MemberAvatar from "@/components/MemberAvatar";
+import { Camera, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cropToSquare } from "@/lib/avatars";
+
+interface AvatarUploadProps {
+  name: string;
+  currentUrl?: string | null;
+  /** Pending change: a new image, null to remove the photo, undefined to keep it */
+  image: Blob | null | undefined;
+  onImageChange: (image: Blob | null) => void;
+  className?: string;
+}
+
+export default function AvatarUpload({ name, currentUrl, image, onImageChange, className }: AvatarUploadProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!image) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(image);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImageChange(await cropToSquare(file));
+    } catch (error) {
+      console.error('Error processing avatar:', error);
+      toast({
+        title: "Invalid Image",
+        description: "Please choose a PNG, JPEG or WebP image",
+        variant: "destructive"
+      });
+    } finally {
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const shownUrl = image === undefined ? currentUrl : previewUrl;
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="relative group rounded-full"
+        title="Upload photo"
+      >
+        <MemberAvatar name={name || "?"} src={shownUrl} className={className ?? "w-16 h-16 border border-border"} />
+        <span className="absolute inset-0 flex items-center justify-center rounded-full bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Camera className="w-4 h-4 text-white" />
+        </span>
+      </button>
+      {shownUrl && (
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => onImageChange(null)}
+          className="text-muted-foreground"
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Remove
+        </Button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="hidden"
+      />
+    </div>
+  );
+}
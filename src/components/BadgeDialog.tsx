@@ -0,0 +1,253 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Award, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BADGE_ICONS, describeBadgeRule } from "@/lib/badges";
+import { useSaveBadge, type Badge, type BadgeRule, type Board } from "@/data";
+
+interface BadgeDialogProps {
+  board: Board;
+  /** Badge to edit; omit to create a new one */
+  badge?: Badge;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Badges for every board have no board of their own
+const ALL_BOARDS = "all";
+
+const EMPTY_FORM = {
+  name: "",
+  description: "",
+  icon: "award",
+  rule: "score_reached" as BadgeRule,
+  threshold: "",
+  days: "0",
+  scope: "",
+};
+
+export default function BadgeDialog({ board, badge, open, onOpenChange }: BadgeDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const saveBadge = useSaveBadge(board.id);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(badge ? {
+      name: badge.name,
+      description: badge.description || "",
+      icon: badge.icon,
+      rule: badge.rule,
+      threshold: badge.threshold.toString(),
+      days: badge.days.toString(),
+      scope: badge.leaderboard_id ?? ALL_BOARDS,
+    } : { ...EMPTY_FORM, scope: board.id });
+  }, [open, badge, board.id]);
+
+  const threshold = Number(form.threshold);
+  const days = form.rule === "rank_held" ? Number(form.days) : 0;
+  const validThreshold =
+    form.threshold.trim() !== "" && Number.isInteger(threshold) && (form.rule === "score_reached" || threshold >= 1);
+  const validDays = Number.isInteger(days) && days >= 0;
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Invalid Badge",
+        description: "Please enter a name for the badge",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!validThreshold || !validDays) {
+      toast({
+        title: "Invalid Badge",
+        description: form.rule === "score_reached"
+          ? "Please enter the score to reach"
+          : "Please enter a rank of 1 or more and a whole number of days",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const values = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      icon: form.icon,
+      rule: form.rule,
+      threshold,
+      days,
+      leaderboard_id: form.scope === ALL_BOARDS ? null : form.scope,
+    };
+
+    try {
+      const data = await saveBadge.mutateAsync({ id: badge?.id, values });
+
+      onOpenChange(false);
+
+      toast({
+        title: "Success",
+        description: badge
+          ? `Badge "${data.name}" updated`
+          : `Badge "${data.name}" created; members who already qualify have been awarded it`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error saving badge:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save badge",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Award className="w-5 h-5" />
+            {badge ? "Edit Badge" : "Create Badge"}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="badge-name">Name</Label>
+            <Input
+              id="badge-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. High Roller"
+              className="bg-input border-border"
+            />
+          </div>
+          <div>
+            <Label htmlFor="badge-description">Description (Optional)</Label>
+            <Input
+              id="badge-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Shown when hovering over the badge"
+              className="bg-input border-border"
+            />
+          </div>
+          <div>
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(BADGE_ICONS).map(([name, Icon]) => (
+                <Button
+                  key={name}
+                  type="button"
+                  size="sm"
+                  variant={form.icon === name ? "default" : "outline"}
+                  onClick={() => setForm({ ...form, icon: name })}
+                  className="border-border"
+                  aria-label={name}
+                  aria-pressed={form.icon === name}
+                >
+                  <Icon className="w-4 h-4" />
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="badge-rule">Awarded For</Label>
+            <Select
+              value={form.rule}
+              onValueChange={(value) => setForm({ ...form, rule: value as BadgeRule })}
+            >
+              <SelectTrigger id="badge-rule" className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="score_reached">Reaching a score</SelectItem>
+                <SelectItem value="rank_held">Holding a rank</SelectItem>
+                <SelectItem value="season_finish">Finishing a season</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="badge-threshold">{form.rule === "score_reached" ? "Score" : "Rank or Better"}</Label>
+              <Input
+                id="badge-threshold"
+                type="number"
+                min={form.rule === "score_reached" ? undefined : 1}
+                step={1}
+                value={form.threshold}
+                onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                placeholder={form.rule === "score_reached" ? "e.g. 50000" : "e.g. 1"}
+                className="bg-input border-border"
+              />
+            </div>
+            {form.rule === "rank_held" && (
+              <div>
+                <Label htmlFor="badge-days">For Days</Label>
+                <Input
+                  id="badge-days"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={form.days}
+                  onChange={(e) => setForm({ ...form, days: e.target.value })}
+                  className="bg-input border-border"
+                />
+              </div>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="badge-scope">Boards</Label>
+            <Select value={form.scope} onValueChange={(value) => setForm({ ...form, scope: value })}>
+              <SelectTrigger id="badge-scope" className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={board.id}>Only {board.name}</SelectItem>
+                <SelectItem value={ALL_BOARDS}>Every board</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {validThreshold && validDays && (
+            <p className="rounded-md border border-border bg-muted/40 p-3 text-sm">
+              {describeBadgeRule({ rule: form.rule, threshold, days })}. Badges are awarded automatically and kept once earned.
+            </p>
+          )}
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleSave}
+              disabled={saveBadge.isPending}
+              className="flex-1 bg-gradient-gold text-primary-foreground"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {badge ? "Save Badge" : "Create Badge"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-border"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Award, Edit, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import BadgeDialog from "@/components/BadgeDialog";
+import { describeBadgeRule, getBadgeIcon } from "@/lib/badges";
+import { useAwardedBadges, useBadges, useDeleteBadge, type Badge, type Board } from "@/data";
+
+interface BadgeManagerProps {
+  board: Board;
+}
+
+export default function BadgeManager({ board }: BadgeManagerProps) {
+  // undefined while the dialog is closed, null while creating a badge
+  const [editingBadge, setEditingBadge] = useState<Badge | null | undefined>(undefined);
+  const [deletingBadge, setDeletingBadge] = useState<Badge | null>(null);
+  const { toast } = useToast();
+
+  const { data: badges = [], isLoading } = useBadges(board.id);
+  const { data: badgesByMember } = useAwardedBadges(board.id);
+  const deleteBadge = useDeleteBadge(board.id);
+
+  const holderCount = (badgeId: string) =>
+    [...(badgesByMember?.values() ?? [])].filter((awarded) => awarded.some((a) => a.badge_id === badgeId)).length;
+
+  const handleDelete = async () => {
+    if (!deletingBadge) return;
+
+    try {
+      await deleteBadge.mutateAsync(deletingBadge.id);
+      setDeletingBadge(null);
+
+      toast({
+        title: "Success",
+        description: `Badge "${deletingBadge.name}" deleted`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error deleting badge:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete badge",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Award className="w-5 h-5 text-primary" />
+            Badges
+          </CardTitle>
+          <Button onClick={() => setEditingBadge(null)} className="bg-gradient-gold text-primary-foreground">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Badge
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Members earn badges automatically when their score or rank meets the badge's rule.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead>Badge</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Boards</TableHead>
+                <TableHead>Earned Here</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {badges.map((badge) => {
+                const Icon = getBadgeIcon(badge.icon);
+                return (
+                  <TableRow key={badge.id} className="border-border">
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Icon className="w-5 h-5 text-primary" />
+                        <div>
+                          <p className="font-medium">{badge.name}</p>
+                          {badge.description && (
+                            <p className="text-sm text-muted-foreground">{badge.description}</p>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{describeBadgeRule(badge)}</TableCell>
+                    <TableCell>{badge.leaderboard_id ? board.name : "Every board"}</TableCell>
+                    <TableCell>{holderCount(badge.id)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setEditingBadge(badge)}
+                          className="border-border hover:bg-accent"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => setDeletingBadge(badge)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!isLoading && badges.length === 0 && (
+          <div className="text-center py-12">
+            <Award className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-bold mb-2">No Badges Yet</h3>
+            <p className="text-muted-foreground">Add a badge to reward milestones on {board.name}.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <BadgeDialog
+        board={board}
+        badge={editingBadge ?? undefined}
+        open={editingBadge !== undefined}
+        onOpenChange={(open) => !open && setEditingBadge(undefined)}
+      />
+
+      <Dialog open={!!deletingBadge} onOpenChange={(open) => !open && setDeletingBadge(null)}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Delete Badge</DialogTitle>
+            <DialogDescription>
+              "{deletingBadge?.name}" will be taken away from everyone who earned it
+              {deletingBadge && !deletingBadge.leaderboard_id ? ", on every board" : ""}. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleDelete}
+              disabled={deleteBadge.isPending}
+              variant="destructive"
+              className="flex-1"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              {deleteBadge.isPending ? "Deleting..." : "Delete badge"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setDeletingBadge(null)}
+              className="border-border"
+            >
+              Cancel
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
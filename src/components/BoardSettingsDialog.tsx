@@ -0,0 +1,320 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LayoutList, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSaveBoard, type Board } from "@/data";
+
+interface BoardSettingsDialogProps {
+  /** Board to edit; omit to create a new one */
+  board?: Board;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (boardId: string) => void;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  slug: "",
+  description: "",
+  is_private: false,
+  scoring_direction: "higher_wins" as Board["scoring_direction"],
+  rank_style: "competition" as Board["rank_style"],
+  tie_breaker: "earliest_to_score" as Board["tie_breaker"],
+  team_scoring: "sum" as Board["team_scoring"],
+  team_top_n: "3",
+  rank_checkpoint: "daily" as Board["rank_checkpoint"],
+};
+
+const toSlug = (value: string) =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export default function BoardSettingsDialog({ board, open, onOpenChange, onSaved }: BoardSettingsDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const saveBoard = useSaveBoard();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(board ? {
+      name: board.name,
+      slug: board.slug,
+      description: board.description || "",
+      is_private: board.is_private,
+      scoring_direction: board.scoring_direction,
+      rank_style: board.rank_style,
+      tie_breaker: board.tie_breaker,
+      team_scoring: board.team_scoring,
+      team_top_n: board.team_top_n.toString(),
+      rank_checkpoint: board.rank_checkpoint,
+    } : EMPTY_FORM);
+  }, [open, board]);
+
+  const handleSave = async () => {
+    const slug = toSlug(form.slug || form.name);
+    if (!form.name.trim() || !slug) {
+      toast({
+        title: "Invalid Board",
+        description: "Please enter a name for the board",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const teamTopN = Number(form.team_top_n);
+    if (form.team_scoring === "top_n_sum" && (!Number.isInteger(teamTopN) || teamTopN < 1)) {
+      toast({
+        title: "Invalid Board",
+        description: "Please enter how many members count towards a team's score",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const values = {
+      name: form.name.trim(),
+      slug,
+      description: form.description || null,
+      is_private: form.is_private,
+      scoring_direction: form.scoring_direction,
+      rank_style: form.rank_style,
+      tie_breaker: form.tie_breaker,
+      team_scoring: form.team_scoring,
+      rank_checkpoint: form.rank_checkpoint,
+      ...(form.team_scoring === "top_n_sum" && { team_top_n: teamTopN })
+    };
+
+    try {
+      const data = await saveBoard.mutateAsync({ id: board?.id, values });
+
+      onOpenChange(false);
+      onSaved(data.id);
+
+      toast({
+        title: "Success",
+        description: board
+          ? `Board "${data.name}" updated`
+          : `Board "${data.name}" created at /b/${data.slug}`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error saving board:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save board. The slug may already be taken.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutList className="w-5 h-5" />
+            {board ? "Board Settings" : "Create Leaderboard"}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="board-name">Name</Label>
+            <Input
+              id="board-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Enter board name"
+              className="bg-input border-border"
+            />
+          </div>
+          <div>
+            <Label htmlFor="board-slug">Slug</Label>
+            <Input
+              id="board-slug"
+              value={form.slug}
+              onChange={(e) => setForm({ ...form, slug: e.target.value })}
+              placeholder={toSlug(form.name) || "spring-hackathon"}
+              className="bg-input border-border"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Public page: /b/{toSlug(form.slug || form.name) || "..."}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="board-description">Description (Optional)</Label>
+            <Input
+              id="board-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Enter a short description"
+              className="bg-input border-border"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="board-private">Private</Label>
+              <p className="text-xs text-muted-foreground">
+                Only staff and viewers can see this board.
+              </p>
+            </div>
+            <Switch
+              id="board-private"
+              checked={form.is_private}
+              onCheckedChange={(checked) => setForm({ ...form, is_private: checked })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="board-direction">Scoring</Label>
+            <Select
+              value={form.scoring_direction}
+              onValueChange={(value) => setForm({
+                ...form,
+                scoring_direction: value as Board["scoring_direction"]
+              })}
+            >
+              <SelectTrigger id="board-direction" className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="higher_wins">Highest score wins</SelectItem>
+                <SelectItem value="lower_wins">Lowest score wins</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="board-rank-style">Equal Scores</Label>
+            <Select
+              value={form.rank_style}
+              onValueChange={(value) => setForm({
+                ...form,
+                rank_style: value as Board["rank_style"]
+              })}
+            >
+              <SelectTrigger id="board-rank-style" className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="competition">Share rank, skip next (1, 2, 2, 4)</SelectItem>
+                <SelectItem value="dense">Share rank, no gaps (1, 2, 2, 3)</SelectItem>
+                <SelectItem value="ordinal">Unique ranks with tie-breaker (1, 2, 3, 4)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {form.rank_style === "ordinal" && (
+            <div>
+              <Label htmlFor="board-tie-breaker">Tie-breaker</Label>
+              <Select
+                value={form.tie_breaker}
+                onValueChange={(value) => setForm({
+                  ...form,
+                  tie_breaker: value as Board["tie_breaker"]
+                })}
+              >
+                <SelectTrigger id="board-tie-breaker" className="bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="earliest_to_score">Earliest to reach the score</SelectItem>
+                  <SelectItem value="secondary_score">Higher secondary stat</SelectItem>
+                  <SelectItem value="joined_first">Joined the board first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="board-team-scoring">Team Score</Label>
+            <Select
+              value={form.team_scoring}
+              onValueChange={(value) => setForm({
+                ...form,
+                team_scoring: value as Board["team_scoring"]
+              })}
+            >
+              <SelectTrigger id="board-team-scoring" className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sum">Total of all members</SelectItem>
+                <SelectItem value="average">Average of all members</SelectItem>
+                <SelectItem value="top_n_sum">Total of the best members</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {form.team_scoring === "top_n_sum" && (
+            <div>
+              <Label htmlFor="board-team-top-n">Members Counted</Label>
+              <Input
+                id="board-team-top-n"
+                type="number"
+                min={1}
+                step={1}
+                value={form.team_top_n}
+                onChange={(e) => setForm({ ...form, team_top_n: e.target.value })}
+                className="bg-input border-border"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Only each team's best {form.team_top_n || "N"} scores add up to its team score.
+              </p>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="board-rank-checkpoint">Rank Movement</Label>
+            <Select
+              value={form.rank_checkpoint}
+              onValueChange={(value) => setForm({
+                ...form,
+                rank_checkpoint: value as Board["rank_checkpoint"]
+              })}
+            >
+              <SelectTrigger id="board-rank-checkpoint" className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Since the start of the day</SelectItem>
+                <SelectItem value="last_visit">Since the viewer's last visit</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              What the ▲/▼ next to each member's rank are counted from.
+            </p>
+          </div>
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleSave}
+              className="flex-1 bg-gradient-gold text-primary-foreground"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {board ? "Save Board" : "Create Board"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-border"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRightLeft, PlusCircle, Target, Trash2 } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useAdjustScores,
+  useDeleteMembers,
+  useMoveMembers,
+  useRestoreMembers,
+  type Board,
+  type Member,
+} from "@/data";
+
+export type BulkAction = "add" | "set" | "move" | "delete";
+
+// How many selected names the summary lists before "and N more"
+const PREVIEW_NAMES = 5;
+
+const TITLES: Record<BulkAction, string> = {
+  add: "Add or Subtract Points",
+  set: "Set Score",
+  move: "Move to Another Board",
+  delete: "Delete Members",
+};
+
+const ICONS: Record<BulkAction, typeof Trash2> = {
+  add: PlusCircle,
+  set: Target,
+  move: ArrowRightLeft,
+  delete: Trash2,
+};
+
+interface BulkActionDialogProps {
+  /** The operation to confirm; the dialog is closed while this is null */
+  action: BulkAction | null;
+  members: Member[];
+  board: Board;
+  boards: Board[];
+  onOpenChange: (open: boolean) => void;
+  /** Called after the operation succeeded, e.g. to clear the selection */
+  onDone: () => void;
+}
+
+const describeNames = (members: Member[]) => {
+  const names = members.slice(0, PREVIEW_NAMES).map((m) => m.name).join(", ");
+  const more = members.length - PREVIEW_NAMES;
+  return more > 0 ? `${names} and ${more} more` : names;
+};
+
+const describeRange = (scores: number[]) => {
+  const low = Math.min(...scores).toLocaleString();
+  const high = Math.max(...scores).toLocaleString();
+  return low === high ? low : `${low} – ${high}`;
+};
+
+export default function BulkActionDialog({ action, members, board, boards, onOpenChange, onDone }: BulkActionDialogProps) {
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [targetBoardId, setTargetBoardId] = useState("");
+  const { toast } = useToast();
+
+  const adjustScores = useAdjustScores(board.id);
+  const deleteMembers = useDeleteMembers(board.id);
+  const moveMembers = useMoveMembers(board.id);
+  const restoreMembers = useRestoreMembers(board.id);
+  const submitting = adjustScores.isPending || deleteMembers.isPending || moveMembers.isPending;
+
+  useEffect(() => {
+    if (!action) return;
+    setValue("");
+    setReason("");
+    setTargetBoardId("");
+  }, [action]);
+
+  const amount = Number(value);
+  const validAmount = value.trim() !== "" && Number.isInteger(amount);
+  const targetBoard = boards.find((b) => b.id === targetBoardId);
+  const memberIds = members.map((m) => m.id);
+  const noun = members.length === 1 ? "member" : "members";
+
+  const describeImpact = () => {
+    const currentScores = members.map((m) => m.score);
+    switch (action) {
+      case "add":
+        if (!validAmount) return `Enter the points to add to ${members.length} ${noun}. Use a negative number to subtract.`;
+        return `${members.length} ${noun} ${amount >= 0 ? "gain" : "lose"} ${Math.abs(amount).toLocaleString()} points: scores go from ${describeRange(currentScores)} to ${describeRange(currentScores.map((s) => s + amount))}.`;
+      case "set":
+        if (!validAmount) return `Enter the score to give ${members.length} ${noun}.`;
+        return `${members.length} ${noun} currently scoring ${describeRange(currentScores)} will all have ${amount.toLocaleString()}.`;
+      case "move":
+        return targetBoard
+          ? `${members.length} ${noun} move from ${board.name} to ${targetBoard.name} with their scores and history. Both boards are re-ranked.`
+          : `Choose the board to move ${members.length} ${noun} to.`;
+      case "delete":
+        return `${members.length} ${noun} move to the trash and drop out of the rankings. They can be restored from the Trash tab.`;
+      default:
+        return "";
+    }
+  };
+
+  const handleUndoDelete = async (ids: string[]) => {
+    try {
+      await restoreMembers.mutateAsync(ids);
+    } catch (error) {
+      console.error('Error restoring members:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore the deleted members; they are still in the trash",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!action) return;
+
+    try {
+      let changed: number;
+      if (action === "delete") {
+        changed = await deleteMembers.mutateAsync(memberIds);
+      } else if (action === "move") {
+        changed = await moveMembers.mutateAsync({ memberIds, targetBoardId });
+      } else {
+        changed = await adjustScores.mutateAsync({
+          memberIds,
+          kind: action === "add" ? "delta" : "absolute",
+          value: amount,
+          reason: reason.trim() || null
+        });
+      }
+
+      onOpenChange(false);
+      onDone();
+
+      toast({
+        title: "Success",
+        description: `${changed} ${changed === 1 ? "member" : "members"} ${action === "delete" ? "moved to the trash" : action === "move" ? "moved" : "updated"}`,
+        variant: "default",
+        action: action === "delete" ? (
+          <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(memberIds)}>
+            Undo
+          </ToastAction>
+        ) : undefined
+      });
+    } catch (error) {
+      console.error('Error running bulk action:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the selected members",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const Icon = action ? ICONS[action] : Trash2;
+  const ready = action === "move" ? !!targetBoard : action === "delete" || validAmount;
+
+  return (
+    <Dialog open={!!action} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon className="w-5 h-5" />
+            {action && TITLES[action]}
+          </DialogTitle>
+          <DialogDescription>{describeNames(members)}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {(action === "add" || action === "set") && (
+            <>
+              <div>
+                <Label htmlFor="bulk-value">{action === "add" ? "Points" : "New score"}</Label>
+                <Input
+                  id="bulk-value"
+                  type="number"
+                  step={1}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={action === "add" ? "e.g. 100 or -50" : "Enter score"}
+                  className="bg-input border-border"
+                />
+              </div>
+              <div>
+                <Label htmlFor="bulk-reason">Reason (Optional)</Label>
+                <Input
+                  id="bulk-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Shown in each member's score history"
+                  className="bg-input border-border"
+                />
+              </div>
+            </>
+          )}
+          {action === "move" && (
+            <div>
+              <Label>Target Board</Label>
+              <Select value={targetBoardId} onValueChange={setTargetBoardId}>
+                <SelectTrigger className="bg-input border-border">
+                  <SelectValue placeholder="Choose a board" />
+                </SelectTrigger>
+                <SelectContent>
+                  {boards.filter((b) => b.id !== board.id).map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <p className="rounded-md border border-border bg-muted/40 p-3 text-sm">
+            {describeImpact()}
+          </p>
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleConfirm}
+              disabled={!ready || submitting}
+              variant={action === "delete" ? "destructive" : "default"}
+              className={action === "delete" ? "flex-1" : "flex-1 bg-gradient-gold text-primary-foreground"}
+            >
+              <Icon className="w-4 h-4 mr-2" />
+              {submitting ? "Applying..." : `Apply to ${members.length} ${noun}`}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-border"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
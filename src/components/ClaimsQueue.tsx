@@ -0,0 +1,291 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, ClipboardCheck, Paperclip, RefreshCw, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { backend, useReviewClaim, useScoreClaims, type ClaimStatus, type ScoreClaim } from "@/data";
+
+const ALL = "all";
+
+const STATUS_VARIANTS: Record<ClaimStatus, "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  approved: "secondary",
+  rejected: "destructive",
+};
+
+const describeChange = (claim: ScoreClaim) => {
+  if (claim.kind === "absolute") return `set to ${claim.value.toLocaleString()}`;
+  return claim.value >= 0 ? `+${claim.value.toLocaleString()}` : claim.value.toLocaleString();
+};
+
+export default function ClaimsQueue() {
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+  const [reviewing, setReviewing] = useState<{ claim: ScoreClaim; approve: boolean } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+  const { toast } = useToast();
+
+  const claimsQuery = useScoreClaims(statusFilter === ALL ? undefined : (statusFilter as ClaimStatus));
+  const claims = claimsQuery.data?.pages.flat() ?? [];
+  const loading = claimsQuery.isFetching;
+  const reviewClaim = useReviewClaim();
+
+  useEffect(() => {
+    if (!claimsQuery.error) return;
+    console.error('Error fetching score claims:', claimsQuery.error);
+  }, [claimsQuery.error]);
+
+  const openReview = (claim: ScoreClaim, approve: boolean) => {
+    setReviewNote("");
+    setReviewing({ claim, approve });
+  };
+
+  const handleViewEvidence = async (path: string) => {
+    try {
+      window.open(await backend.claims.evidenceUrl(path), "_blank", "noopener");
+    } catch (error) {
+      console.error('Error opening claim evidence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open the attachment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+
+    try {
+      await reviewClaim.mutateAsync({
+        claimId: reviewing.claim.id,
+        approve: reviewing.approve,
+        note: reviewNote.trim() || null,
+      });
+
+      setReviewing(null);
+
+      toast({
+        title: reviewing.approve ? "Claim Approved" : "Claim Rejected",
+        description: reviewing.approve
+          ? `${reviewing.claim.member?.name ?? "The member"}'s score has been updated`
+          : "The submitter can see your note on the claim",
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error reviewing score claim:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review the claim",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-primary" />
+            Score Claims
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36 bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value={ALL}>All claims</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => claimsQuery.refetch()}
+              className="border-border"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead>Submitted</TableHead>
+                <TableHead>Member</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {claims.map((claim) => (
+                <TableRow key={claim.id} className="border-border align-top">
+                  <TableCell className="whitespace-nowrap text-sm">
+                    <div className="text-muted-foreground">{format(new Date(claim.created_at), "PP p")}</div>
+                    <div>{claim.submitter?.full_name || claim.submitter?.email || "Unknown"}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div className="font-medium">{claim.member?.name ?? "Deleted member"}</div>
+                    <div className="text-muted-foreground">{claim.member?.leaderboard?.name}</div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    <div className="font-semibold">{describeChange(claim)}</div>
+                    {claim.member && (
+                      <div className="text-muted-foreground">now {claim.member.score.toLocaleString()}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm max-w-xs">
+                    {claim.note && <p>{claim.note}</p>}
+                    {claim.evidence_path && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        onClick={() => handleViewEvidence(claim.evidence_path!)}
+                        className="h-auto p-0"
+                      >
+                        <Paperclip className="w-3 h-3 mr-1" />
+                        View evidence
+                      </Button>
+                    )}
+                    {claim.review_note && (
+                      <p className="text-muted-foreground mt-1">
+                        Review: {claim.review_note}
+                        {claim.reviewer && ` (${claim.reviewer.full_name || claim.reviewer.email})`}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[claim.status]}>{claim.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {claim.status === "pending" && claim.member && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => openReview(claim, true)}
+                          className="bg-success text-success-foreground hover:bg-success/90"
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => openReview(claim, false)}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!loading && claims.length === 0 && (
+          <div className="text-center py-12">
+            <ClipboardCheck className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-bold mb-2">No Claims</h3>
+            <p className="text-muted-foreground">
+              {statusFilter === "pending" ? "Nothing is waiting for review." : "No claims match this filter."}
+            </p>
+          </div>
+        )}
+
+        {claimsQuery.hasNextPage && (
+          <div className="flex justify-center mt-4">
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={() => claimsQuery.fetchNextPage()}
+              className="border-border"
+            >
+              Load more
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>{reviewing?.approve ? "Approve Claim" : "Reject Claim"}</DialogTitle>
+            <DialogDescription>
+              {reviewing && (
+                <>
+                  {reviewing.claim.member?.name}: {describeChange(reviewing.claim)}
+                  {reviewing.approve && " will be applied to the leaderboard right away."}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="review-note">Note to submitter (optional)</Label>
+              <Textarea
+                id="review-note"
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                className="bg-input border-border"
+              />
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button
+                onClick={handleReview}
+                disabled={reviewClaim.isPending}
+                variant={reviewing?.approve ? "default" : "destructive"}
+                className={reviewing?.approve ? "flex-1 bg-gradient-gold text-primary-foreground" : "flex-1"}
+              >
+                {reviewing?.approve ? "Approve" : "Reject"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setReviewing(null)}
+                className="border-border"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
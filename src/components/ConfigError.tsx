@@ -0,0 +1,32 @@
+import { AlertTriangle } from "lucide-react";
+
+interface ConfigErrorProps {
+  problems: string[];
+}
+
+/** Shown instead of the app when the Supabase connection settings are missing or wrong. */
+export default function ConfigError({ problems }: ConfigErrorProps) {
+  return (
+    <div className="min-h-screen bg-gradient-main text-foreground flex items-center justify-center p-4">
+      <div className="max-w-xl">
+        <div className="w-24 h-24 bg-destructive/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <AlertTriangle className="w-12 h-12 text-destructive" />
+        </div>
+        <h1 className="text-3xl font-bold mb-4 text-center">Configuration Error</h1>
+        <p className="text-muted-foreground mb-4 text-center">
+          The app cannot connect to its database until these settings are fixed:
+        </p>
+        <ul className="list-disc pl-6 space-y-2 mb-6 text-sm">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+        <p className="text-sm text-muted-foreground">
+          Copy <code className="font-mono">.env.example</code> to <code className="font-mono">.env</code>, or set
+          the values in <code className="font-mono">.env.local</code> (for a local stack, take them from{" "}
+          <code className="font-mono">supabase status</code>), then restart the dev server.
+        </p>
+      </div>
+    </div>
+  );
+}
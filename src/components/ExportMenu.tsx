@@ -0,0 +1,63 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileJson, FileSpreadsheet, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { exportStandings, type ExportFormat, type StandingRow } from "@/lib/export";
+
+interface ExportMenuProps {
+  boardSlug: string;
+  /** The rows to export, or a loader for boards that are only partly loaded on screen */
+  rows: StandingRow[] | (() => Promise<StandingRow[]>);
+  className?: string;
+}
+
+export default function ExportMenu({ boardSlug, rows, className }: ExportMenuProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      exportStandings(boardSlug, Array.isArray(rows) ? rows : await rows(), exportFormat);
+    } catch (error) {
+      console.error('Error exporting standings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the standings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={Array.isArray(rows) && rows.length === 0} className={className}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-card border-border">
+        <DropdownMenuItem onClick={() => handleExport("csv")}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Download CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("json")}>
+          <FileJson className="w-4 h-4 mr-2" />
+          Download JSON
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => navigate(`/b/${boardSlug}/certificates`)}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print top 3 certificates
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
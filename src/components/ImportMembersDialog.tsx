@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload, ArrowLeft, ArrowRight, Check, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDeletedMembers, useImportMembers } from "@/data";
+import {
+  IMPORT_FIELDS,
+  buildImportPlan,
+  guessMapping,
+  parseImportFile,
+  type ColumnMapping,
+  type ExistingMember,
+  type ImportRow,
+  type ParsedImport,
+} from "@/lib/import";
+
+interface ImportMembersDialogProps {
+  boardId: string;
+  existingMembers: ExistingMember[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "upload" | "map" | "preview";
+
+const NO_COLUMN = "__none__";
+
+export default function ImportMembersDialog({
+  boardId,
+  existingMembers,
+  open,
+  onOpenChange,
+}: ImportMembersDialogProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [rawText, setRawText] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [plan, setPlan] = useState<ImportRow[]>([]);
+  const importMembers = useImportMembers(boardId);
+  const { toast } = useToast();
+  // Importing a trashed member's name or id restores it, so the preview matches those too
+  const { data: trashedMembers = [] } = useDeletedMembers(open ? boardId : undefined);
+
+  const reset = () => {
+    setStep("upload");
+    setRawText("");
+    setFileName("");
+    setParsed(null);
+    setMapping(null);
+    setPlan([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setRawText(await file.text());
+  };
+
+  const handleParse = () => {
+    try {
+      const result = parseImportFile(fileName, rawText);
+      if (result.rows.length === 0) {
+        throw new Error("The file has no data rows");
+      }
+      setParsed(result);
+      setMapping(guessMapping(result.columns));
+      setStep("map");
+    } catch (error) {
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePreview = () => {
+    if (!parsed || !mapping) return;
+    setPlan(buildImportPlan(parsed, mapping, [...existingMembers, ...trashedMembers]));
+    setStep("preview");
+  };
+
+  const handleImport = async () => {
+    try {
+      const rows = plan.map(({ name, score, avatar_url, external_id }) => ({
+        name,
+        score,
+        avatar_url,
+        external_id,
+      }));
+
+      const result = await importMembers.mutateAsync(rows);
+      toast({
+        title: "Import complete",
+        description: `${result.inserted} added, ${result.updated} updated.`,
+        variant: "default"
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error importing members:', error);
+      toast({
+        title: "Import failed",
+        description: "No changes were made. Please check the file and try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const errorCount = plan.filter((row) => row.errors.length > 0).length;
+  const insertCount = plan.filter((row) => row.action === "insert").length;
+  const updateCount = plan.length - insertCount;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-card border-border max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            Import Members
+          </DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Step 1 of 3: choose a CSV or JSON file, or paste its contents."}
+            {step === "map" && "Step 2 of 3: match the file's columns to member fields."}
+            {step === "preview" && "Step 3 of 3: review the changes before applying them."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="import-file">File</Label>
+              <input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block w-full text-sm text-muted-foreground file:mr-4 file:rounded-md file:border-0 file:bg-primary file:px-4 file:py-2 file:text-primary-foreground"
+              />
+            </div>
+            <div>
+              <Label htmlFor="import-text">Contents</Label>
+              <Textarea
+                id="import-text"
+                value={rawText}
+                onChange={(e) => setRawText(e.target.value)}
+                placeholder={"name,score,avatar_url\nJordyn Kenter,96239,"}
+                className="h-48 font-mono text-xs bg-input border-border"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={handleParse}
+                disabled={!rawText.trim()}
+                className="bg-gradient-gold text-primary-foreground"
+              >
+                Next
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && parsed && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Found {parsed.rows.length} rows and {parsed.columns.length} columns.
+            </p>
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.key} className="grid grid-cols-3 items-center gap-4">
+                <Label htmlFor={`map-${field.key}`}>
+                  {field.label}
+                  {field.required && " *"}
+                </Label>
+                <Select
+                  value={mapping[field.key] ?? NO_COLUMN}
+                  onValueChange={(value) => setMapping({
+                    ...mapping,
+                    [field.key]: value === NO_COLUMN ? null : value
+                  })}
+                >
+                  <SelectTrigger id={`map-${field.key}`} className="col-span-2 bg-input border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN}>— Not imported —</SelectItem>
+                    {parsed.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Rows update an existing member when the External ID matches, otherwise when the name matches.
+            </p>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep("upload")} className="border-border">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={handlePreview}
+                disabled={!mapping.name}
+                className="bg-gradient-gold text-primary-foreground"
+              >
+                Preview
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="text-success">{insertCount} new</Badge>
+              <Badge variant="outline">{updateCount} updates</Badge>
+              {errorCount > 0 && (
+                <Badge variant="destructive">{errorCount} with errors</Badge>
+              )}
+            </div>
+            <ScrollArea className="h-80 rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border">
+                    <TableHead>Line</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map((row) => (
+                    <TableRow
+                      key={row.line}
+                      className={`border-border ${row.errors.length > 0 ? "bg-destructive/10" : ""}`}
+                    >
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>
+                        <Badge variant={row.action === "insert" ? "secondary" : "outline"}>
+                          {row.action === "insert" ? "Insert" : "Update"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                      <TableCell>{row.score?.toLocaleString() ?? "—"}</TableCell>
+                      <TableCell className="text-sm text-destructive">
+                        {row.errors.join("; ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {errorCount > 0 && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                Fix the rows with errors in your file before importing.
+              </p>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep("map")} className="border-border">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={errorCount > 0 || importMembers.isPending}
+                className="bg-gradient-gold text-primary-foreground"
+              >
+                <Check className="w-4 h-4 mr-2" />
+                {importMembers.isPending ? "Importing..." : `Import ${plan.length} rows`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
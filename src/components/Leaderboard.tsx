@@ -1,174 +1,277 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { Card, CardContent } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { CircleDollarSign } from "lucide-react";
-import { Crown, Trophy, Medal, Award, TrendingUp } from "lucide-react";
+import { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from "react";
+import { format } from "date-fns";
+import { Crown, Trophy, TrendingUp, Archive, Lock, LocateFixed, Send, ArrowDownToLine, Users, UsersRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useNavigate } from "react-router-dom";
+import ScoreHistory from "@/components/ScoreHistory";
+import ExportMenu from "@/components/ExportMenu";
+import ScoreClaimDialog from "@/components/ScoreClaimDialog";
+import MemberFilterBar from "@/components/MemberFilterBar";
+import PodiumCard from "@/components/PodiumCard";
+import LeaderboardRow from "@/components/LeaderboardRow";
+import TeamLeaderboard from "@/components/TeamLeaderboard";
+import RankClimbers from "@/components/RankClimbers";
+import { useLastVisitRanks } from "@/hooks/use-last-visit-ranks";
+import { useMemberFilters } from "@/hooks/use-member-filters";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { getTiedRanks } from "@/lib/ranks";
+import { applyMemberFilters, hasMemberFilters } from "@/lib/search";
+import {
+  backend,
+  checkpointDay,
+  PODIUM_SIZE,
+  sortByRank,
+  useAwardedBadges,
+  useBoards,
+  useCheckpointRanks,
+  useCurrentUser,
+  useLeaderboard,
+  useLeaderboardPages,
+  useLeaderboardUpdates,
+  useLinkedMember,
+  usePodium,
+  useRankClimbers,
+  useSeasons,
+  useSeasonStandings,
+  useTeamStandings,
+  type RankedMember,
+} from "@/data";
 
-interface LeaderboardMember {
-  id: string;
-  name: string;
-  score: number;
-  avatar_url?: string;
+interface LeaderboardProps {
+  slug?: string;
+}
+
+const RANK_HIGHLIGHT_MS = 1500;
+// Gold in the middle, silver on the left, bronze on the right
+const PODIUM_ORDER = ["md:order-2", "md:order-1", "md:order-3"];
+// An 82px row card plus the gap below it; the virtualised list relies on every row being this tall
+const ROW_HEIGHT = 98;
+
+interface JumpTarget {
   rank: number;
+  memberId?: string;
 }
 
-const getRankIcon = (rank: number) => {
-  switch (rank) {
-    case 1:
-      return <Crown className="w-8 h-8 text-primary animate-glow-pulse" />;
-    case 2:
-      return <Trophy className="w-7 h-7 text-secondary" />;
-    case 3:
-      return <Medal className="w-6 h-6 text-bronze" />;
-    default:
-      return <Award className="w-5 h-5 text-muted-foreground" />;
-  }
+// Index of the row a jump lands on, or -1 if it is not loaded. Ranks past the end land on the last row.
+const findJumpTarget = (rows: RankedMember[], target: JumpTarget, hasMore: boolean) => {
+  if (target.memberId) return rows.findIndex((m) => m.id === target.memberId);
+  const index = rows.findIndex((m) => m.rank >= target.rank);
+  return index === -1 && !hasMore ? rows.length - 1 : index;
 };
 
-const getRankStyle = (rank: number) => {
-  switch (rank) {
-    case 1:
-      return "bg-gradient-gold border-2 border-primary shadow-glow-gold animate-glow-pulse";
-    case 2:
-      return "bg-gradient-silver border-2 border-secondary shadow-glow-silver";
-    case 3:
-      return "bg-gradient-bronze border-2 border-bronze shadow-glow-bronze";
-    default:
-      return "bg-gradient-card border border-border shadow-card hover:bg-accent/20";
-  }
-};
+export default function Leaderboard({ slug }: LeaderboardProps) {
+  const [historyMember, setHistoryMember] = useState<RankedMember | null>(null);
+  const [isClaimOpen, setIsClaimOpen] = useState(false);
+  const [movedIds, setMovedIds] = useState<Set<string>>(new Set());
+  // Empty until the viewer picks a season; the open season is shown by default
+  const [chosenSeasonId, setChosenSeasonId] = useState("");
+  // Rank the live list starts loading from; "jump to rank" moves it
+  const [fromRank, setFromRank] = useState(1);
+  const [pendingJump, setPendingJump] = useState<JumpTarget | null>(null);
+  const [jumpRank, setJumpRank] = useState("");
+  const [view, setView] = useState<"members" | "teams">("members");
+  const previousRanks = useRef(new Map<string, number>());
+  const firstPageParam = useRef<unknown>(null);
+  const firstRowId = useRef<string | undefined>(undefined);
+  const navigate = useNavigate();
 
-const PodiumCard = ({ member, position }: { member: LeaderboardMember; position: 1 | 2 | 3 }) => {
-  const heights = {
-    1: "h-48",
-    2: "h-48", 
-    3: "h-48"
-  };
+  const { data: boards = [], isLoading: boardsLoading } = useBoards();
+  // Without a slug the oldest board is the home page board
+  const board = (slug ? boards.find((b) => b.slug === slug) : boards[0]) ?? null;
 
-  return (
-    <div className={`${heights[position]} flex flex-col justify-end animate-float`}>
-      <Card className={`${getRankStyle(position)} relative overflow-hidden transition-all duration-300 hover:scale-105`}>
-        <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent -skew-x-12 animate-rank-shine" />
-        <CardContent className="p-6 text-center">
-          <div className="relative mb-4">
-            <Avatar className="w-20 h-20 mx-auto border-2 border-white/20">
-              <AvatarImage src={member.avatar_url} alt={member.name} />
-              <AvatarFallback className="text-lg font-bold bg-muted">
-                {member.name.split(' ').map(n => n[0]).join('')}
-              </AvatarFallback>
-            </Avatar>
-            <div className="absolute -top-2 -right-2">
-              {getRankIcon(position)}
-            </div>
-          </div>
-          <h3 className="font-bold text-lg mb-2">{member.name}</h3>
-          <div className="flex items-center justify-center gap-2">
-            <CircleDollarSign className="w-4 h-4 text-success" />
-            <span className="text-2xl font-bold">{member.score.toLocaleString()}</span>
-          </div>
-          <Badge variant="secondary" className="mt-2">
-            #{position}
-          </Badge>
-        </CardContent>
-      </Card>
-    </div>
-  );
-};
+  const podiumQuery = usePodium(board?.id);
+  const { filters, setFilters } = useMemberFilters();
+  const filtering = hasMemberFilters(filters);
+  const rankOrder = (filters.sort ?? "rank") === "rank";
+  const pagesQuery = useLeaderboardPages(board?.id, fromRank, filters);
+  useLeaderboardUpdates(board?.id);
+  const { data: seasons = [] } = useSeasons(board?.id);
+  const { data: currentUser } = useCurrentUser();
+  const currentUserId = currentUser?.id ?? null;
+  const linkedMemberQuery = useLinkedMember(board?.id, currentUserId);
+  // The claim form lists every member, so the full board is only loaded while it is open
+  const { data: claimMembers = [] } = useLeaderboard(isClaimOpen ? board?.id : undefined);
+  const { data: teamStandings = [] } = useTeamStandings(board?.id);
+  const { data: badgesByMember } = useAwardedBadges(board?.id);
 
-const LeaderboardRow = ({ member, index }: { member: LeaderboardMember; index: number }) => {
-  return (
-    <Card className={`${getRankStyle(member.rank)} transition-all duration-300 hover:scale-[1.02] group`}>
-      <CardContent className="p-4">
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-3 min-w-0 flex-1">
-            <div className="flex items-center justify-center w-8 h-8">
-              {getRankIcon(member.rank)}
-            </div>
-            <Avatar className="w-12 h-12 border border-white/20">
-              <AvatarImage src={member.avatar_url} alt={member.name} />
-              <AvatarFallback className="bg-muted font-semibold">
-                {member.name.split(' ').map(n => n[0]).join('')}
-              </AvatarFallback>
-            </Avatar>
-            <div className="min-w-0 flex-1">
-              <h4 className="font-semibold text-lg truncate">{member.name}</h4>
-              <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                <span>Rank #{member.rank}</span>
-              </div>
-            </div>
-          </div>
-          <div className="text-right">
-            <div className="flex items-center gap-2">
-              <CircleDollarSign className="w-4 h-4 text-warning" />
-              <span className="text-xl font-bold text-warning">
-                {member.score.toLocaleString()}
-              </span>
-            </div>
-          </div>
-        </div>
-      </CardContent>
-    </Card>
+  const selectedSeasonId = chosenSeasonId || seasons.find((season) => !season.ended_at)?.id || "";
+  const selectedSeason = seasons.find((season) => season.id === selectedSeasonId);
+  const previousSeason = selectedSeason
+    ? seasons.find((season) => season.number === selectedSeason.number - 1)
+    : undefined;
+
+  const { data: archivedStandings } = useSeasonStandings(selectedSeason?.ended_at ? selectedSeason.id : undefined);
+  const { data: previousStandings = [] } = useSeasonStandings(previousSeason?.id);
+  const lastSeasonRanks = new Map(previousStandings.map((m) => [m.id, m.rank]));
+
+  // A closed season shows its frozen snapshot, loaded whole, instead of the live pages
+  const archived = selectedSeason?.ended_at ? archivedStandings ?? null : null;
+  const livePodium = useMemo(() => podiumQuery.data ?? [], [podiumQuery.data]);
+  const livePages = pagesQuery.data?.pages;
+  const liveRows = useMemo(() => livePages?.flat() ?? [], [livePages]);
+
+  // Teams are only ranked live; closed seasons keep member standings only
+  const showTeams = !archived && teamStandings.length > 0;
+  const activeView = showTeams ? view : "members";
+
+  const podium = useMemo(
+    () => (archived ? archived.filter((m) => m.rank > 0 && m.rank <= PODIUM_SIZE) : livePodium),
+    [archived, livePodium]
   );
-};
+  // Members tied for a place share its spot on the podium
+  const podiumPlaces = useMemo(() => {
+    const places = new Map<number, RankedMember[]>();
+    podium.forEach((m) => places.set(m.rank, [...(places.get(m.rank) ?? []), m]));
+    return [...places.values()];
+  }, [podium]);
+  // Filtered results list everyone who matches, including members on the podium
+  const remaining = useMemo(() => {
+    if (archived && filtering) return applyMemberFilters(archived, filters);
+    if (filtering) return liveRows;
+    const podiumIds = new Set(podium.map((m) => m.id));
+    return (archived ?? liveRows).filter((m) => !podiumIds.has(m.id));
+  }, [archived, filtering, filters, podium, liveRows]);
+  const tiedRanks = getTiedRanks([...podium, ...remaining]);
 
-export default function Leaderboard() {
-  const [members, setMembers] = useState<LeaderboardMember[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const navigate = useNavigate();
+  // Movement is measured against the start of the day or the viewer's last visit, as the board is set up to
+  const checkpoint = board?.rank_checkpoint ?? "daily";
+  const liveBoardId = archived ? undefined : board?.id;
+  const shownMembers = useMemo(() => [...livePodium, ...liveRows], [livePodium, liveRows]);
+  const { data: dailyRanks } = useCheckpointRanks(checkpoint === "daily" ? liveBoardId : undefined, checkpointDay());
+  const visitRanks = useLastVisitRanks(checkpoint === "last_visit" ? liveBoardId : undefined, shownMembers);
+  const checkpointRanks = checkpoint === "daily" ? dailyRanks : visitRanks;
+  const { data: climbers = [] } = useRankClimbers(liveBoardId);
+
+  const rankChange = (member: RankedMember) => {
+    const before = checkpointRanks?.get(member.id);
+    return archived || before === undefined || member.rank === null ? undefined : before - member.rank;
+  };
+  const hasPreviousRows = !archived && pagesQuery.hasPreviousPage;
+  const hasMoreRows = !archived && pagesQuery.hasNextPage;
+
+  const { containerRef, start, end, totalHeight, scrollToIndex, shiftBy } = useVirtualRows(remaining.length, ROW_HEIGHT);
+  const loading = boardsLoading || podiumQuery.isLoading || podiumQuery.isPlaceholderData || pagesQuery.isLoading;
+
+  useEffect(() => {
+    setChosenSeasonId("");
+    setFromRank(1);
+    setPendingJump(null);
+    previousRanks.current = new Map();
+  }, [slug]);
 
+  // New filters start the results from the top
   useEffect(() => {
-    fetchLeaderboard();
-    checkAdminStatus();
-  }, []);
-
-  const fetchLeaderboard = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('leaderboard_members')
-        .select('*')
-        .order('score', { ascending: false });
-
-      if (error) throw error;
-
-      // Assign ranks based on sorted order
-      const rankedMembers = (data || []).map((member: any, idx: number) => ({
-        ...member,
-        rank: idx + 1,
-      }));
-
-      setMembers(rankedMembers);
-    } catch (error) {
-      console.error('Error fetching leaderboard:', error);
-    } finally {
-      setLoading(false);
+    setFromRank(1);
+    setPendingJump(null);
+  }, [filters]);
+
+  // Briefly highlight members whose rank moved since the last render
+  useEffect(() => {
+    if (!pagesQuery.data) return;
+
+    const loaded = [...livePodium, ...liveRows];
+    const moved = new Set<string>();
+    loaded.forEach((member) => {
+      const previous = previousRanks.current.get(member.id);
+      if (previous !== undefined && previous !== member.rank) {
+        moved.add(member.id);
+      }
+    });
+    loaded.forEach((m) => previousRanks.current.set(m.id, m.rank));
+
+    if (moved.size === 0) return;
+
+    setMovedIds(moved);
+    const timeout = setTimeout(() => setMovedIds(new Set()), RANK_HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [pagesQuery.data, livePodium, liveRows]);
+
+  // Rows loaded above the visible ones would push them down, so scroll by the same amount
+  useLayoutEffect(() => {
+    const params = pagesQuery.data?.pageParams ?? [];
+    const previousFirstRow = firstRowId.current;
+    const prepended = firstPageParam.current !== null && params.indexOf(firstPageParam.current) > 0;
+
+    firstPageParam.current = params[0] ?? null;
+    firstRowId.current = remaining[0]?.id;
+
+    if (prepended && previousFirstRow) {
+      const shift = remaining.findIndex((m) => m.id === previousFirstRow);
+      if (shift > 0) shiftBy(shift);
     }
-  };
+  }, [pagesQuery.data, remaining, shiftBy]);
+
+  // Load further pages as the visible window nears either end of what is loaded
+  const { fetchNextPage, fetchPreviousPage, isFetchingNextPage, isFetchingPreviousPage, isPlaceholderData } = pagesQuery;
+  useEffect(() => {
+    if (isPlaceholderData) return;
+    if (hasMoreRows && !isFetchingNextPage && end >= remaining.length) fetchNextPage();
+    if (hasPreviousRows && !isFetchingPreviousPage && start === 0) fetchPreviousPage();
+  }, [start, end, remaining.length, hasMoreRows, hasPreviousRows, isFetchingNextPage, isFetchingPreviousPage, isPlaceholderData, fetchNextPage, fetchPreviousPage]);
 
-  const checkAdminStatus = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', user.id)
-        .eq('role', 'admin')
-        .single();
-
-      if (data) setIsAdmin(true);
-    } catch (error) {
-      // User is not admin or not logged in
+  // The list scrolls inside the page, so bring it into view before scrolling the row into it
+  const showRow = useCallback(
+    (index: number) => {
+      document.getElementById("rankings")?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+      scrollToIndex(index);
+    },
+    [scrollToIndex]
+  );
+
+  // Finish a jump once the rows around its target have loaded
+  useEffect(() => {
+    if (!pendingJump || isPlaceholderData || pagesQuery.isFetching) return;
+
+    const index = findJumpTarget(remaining, pendingJump, hasMoreRows);
+    if (index >= 0) showRow(index);
+    setPendingJump(null);
+  }, [pendingJump, remaining, hasMoreRows, isPlaceholderData, pagesQuery.isFetching, showRow]);
+
+  // Archived standings keep member ids, so the live link also finds "me" there
+  const myMemberId = linkedMemberQuery.data?.id;
+  const showsMe = !!myMemberId && (!archived || archived.some((m) => m.id === myMemberId));
+
+  const jumpTo = (target: JumpTarget) => {
+    const onPodium = target.memberId
+      ? podium.find((m) => m.id === target.memberId)
+      : podium.find((m) => m.rank >= target.rank);
+    if (onPodium) {
+      document.getElementById(`member-${onPodium.id}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
     }
+
+    // Scroll straight there when the target is among the loaded rows
+    const index = findJumpTarget(remaining, target, hasMoreRows);
+    const loadedFromTop = !hasPreviousRows || (remaining[0]?.rank ?? Infinity) <= target.rank;
+    if (archived || !rankOrder || (index >= 0 && loadedFromTop)) {
+      if (index >= 0) showRow(index);
+      return;
+    }
+
+    setFromRank(target.rank);
+    setPendingJump(target);
+  };
+
+  const jumpToMe = async () => {
+    // Ranks move all the time, so look up where the member is now
+    const { data: me } = await linkedMemberQuery.refetch();
+    if (me) jumpTo({ rank: archived?.find((m) => m.id === me.id)?.rank ?? me.rank ?? 1, memberId: me.id });
   };
 
-  const topThree = members.slice(0, 3);
-  const remaining = members.slice(3);
+  const handleJumpToRank = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rank = Number(jumpRank);
+    if (Number.isInteger(rank) && rank >= 1) jumpTo({ rank });
+  };
 
   if (loading) {
     return (
@@ -181,6 +284,27 @@ export default function Leaderboard() {
     );
   }
 
+  if (slug && !board) {
+    return (
+      <div className="min-h-screen bg-gradient-main flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <Trophy className="w-24 h-24 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-3xl font-bold mb-4">Board Not Found</h1>
+          <p className="text-muted-foreground mb-6">
+            There is no leaderboard at "/b/{slug}".
+          </p>
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            className="border-border"
+          >
+            Go Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-main text-foreground">
       <div className="container mx-auto px-4 py-8">
@@ -189,16 +313,63 @@ export default function Leaderboard() {
           <div className="flex items-center justify-center gap-3 mb-4">
             <Crown className="w-12 h-12 text-primary animate-glow-pulse" />
             <h1 className="text-5xl font-bold bg-gradient-gold bg-clip-text text-transparent">
-              Skill Up
+              {board?.name || "Skill Up"}
             </h1>
             <Crown className="w-12 h-12 text-primary animate-glow-pulse" />
           </div>
           <p className="text-xl text-muted-foreground">
-            Compete for glory and climb to the top!
+            {board?.description || "Compete for glory and climb to the top!"}
           </p>
+          {(boards.length > 1 || seasons.length > 1) && board && (
+            <div className="mt-6 flex flex-wrap justify-center gap-4">
+              {boards.length > 1 && (
+                <Select
+                  value={board.slug}
+                  onValueChange={(value) => navigate(`/b/${value}`)}
+                >
+                  <SelectTrigger className="w-64 bg-card/80 border-border">
+                    <SelectValue placeholder="Choose a board" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {boards.map((b) => (
+                      <SelectItem key={b.id} value={b.slug}>
+                        <span className="flex items-center gap-2">
+                          {b.name}
+                          {b.is_private && <Lock className="w-3 h-3 text-muted-foreground" />}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {seasons.length > 1 && (
+                <Select
+                  value={selectedSeasonId}
+                  onValueChange={setChosenSeasonId}
+                >
+                  <SelectTrigger className="w-64 bg-card/80 border-border">
+                    <SelectValue placeholder="Choose a season" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {seasons.map((season) => (
+                      <SelectItem key={season.id} value={season.id}>
+                        {season.ended_at ? season.name : `${season.name} (current)`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+          {selectedSeason?.ended_at && (
+            <div className="mt-4 inline-flex items-center gap-2 rounded-full border border-border bg-card/80 px-4 py-1 text-sm text-muted-foreground">
+              <Archive className="w-4 h-4" />
+              Final standings · {format(new Date(selectedSeason.started_at), "PP")} – {format(new Date(selectedSeason.ended_at), "PP")}
+            </div>
+          )}
             {/* Moved Admin button below the description */}
             
-            <div className="mt-6">
+            <div className="mt-6 flex justify-center gap-2">
               <Button 
               onClick={() => navigate('/admin')} 
               variant="default"
@@ -206,66 +377,176 @@ export default function Leaderboard() {
               >
               Admin Panel
               </Button>
+              {showsMe && (
+                <Button
+                  onClick={jumpToMe}
+                  variant="outline"
+                  className="border-border bg-card/80"
+                >
+                  <LocateFixed className="w-4 h-4 mr-2" />
+                  Jump to Me
+                </Button>
+              )}
+              {currentUserId && board && !selectedSeason?.ended_at && (
+                <Button
+                  onClick={() => setIsClaimOpen(true)}
+                  variant="outline"
+                  className="border-border bg-card/80"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  Submit Score
+                </Button>
+              )}
+              {board && (
+                <ExportMenu
+                  boardSlug={selectedSeason?.ended_at ? `${board.slug}-season-${selectedSeason.number}` : board.slug}
+                  rows={archived ?? (async () => sortByRank(await backend.members.list(board.id)))}
+                  className="border-border bg-card/80"
+                />
+              )}
             </div>
             
           
         </div>
 
-        {/* Top 3 Podium */}
-        {topThree.length > 0 && (
-          <div className="mb-16">
-            <h2 className="text-3xl font-bold text-center mb-8 text-primary">Champions</h2>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-4xl mx-auto">
+        <Tabs value={activeView} onValueChange={(value) => setView(value as "members" | "teams")}>
+          {showTeams && (
+            <TabsList className="mx-auto mb-8 flex w-fit">
+              <TabsTrigger value="members" className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Members
+              </TabsTrigger>
+              <TabsTrigger value="teams" className="flex items-center gap-2">
+                <UsersRound className="w-4 h-4" />
+                Teams
+              </TabsTrigger>
+            </TabsList>
+          )}
 
-              {/* Gold - 1st place */}
-              {topThree[0] && (
-                <div className="md:order-2">
-                  <PodiumCard member={topThree[0]} position={1} />
+          <TabsContent value="members">
+            {/* Podium: everyone placed in the top 3 */}
+            {podium.length > 0 && (
+              <div className="mb-16">
+                <h2 className="text-3xl font-bold text-center mb-8 text-primary">Champions</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-4xl mx-auto">
+                  {podiumPlaces.map((place, index) => (
+                    <div key={place[0].rank} className={`${PODIUM_ORDER[index]} space-y-8`}>
+                      {place.map((member) => (
+                        <div key={member.id} id={`member-${member.id}`}>
+                          <PodiumCard member={member} position={(index + 1) as 1 | 2 | 3} onSelect={setHistoryMember} tied={tiedRanks.has(member.rank)} isCurrentUser={member.id === myMemberId} highlight={movedIds.has(member.id)} badges={badgesByMember?.get(member.id)} />
+                        </div>
+                      ))}
+                    </div>
+                  ))}
                 </div>
-              )}
-              {/* Silver - 2nd place */}
-              {topThree[1] && (
-                <div className="md:order-1">
-                  <PodiumCard member={topThree[1]} position={2} />
+              </div>
+            )}
+
+            {!archived && !filtering && climbers.length > 0 && <RankClimbers climbers={climbers} />}
+
+            {/* Remaining Rankings */}
+            {(remaining.length > 0 || filtering) && (
+              <div className="max-w-4xl mx-auto">
+                <h2 className="text-3xl font-bold text-center mb-4 text-primary">Rankings</h2>
+                {!archived && (
+                  <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground mb-4">
+                    <TrendingUp className="w-4 h-4" />
+                    ▲▼ show places moved since {checkpoint === "daily" ? "the start of the day" : "your last visit"}
+                  </p>
+                )}
+                <div className="flex flex-wrap justify-center gap-2 mb-6">
+                  <MemberFilterBar filters={filters} onChange={setFilters} className="justify-center" />
+                  {rankOrder && (
+                    <form onSubmit={handleJumpToRank} className="flex justify-center gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={jumpRank}
+                        onChange={(e) => setJumpRank(e.target.value)}
+                        placeholder="Rank"
+                        aria-label="Rank to jump to"
+                        className="w-28 bg-card/80 border-border"
+                      />
+                      <Button type="submit" variant="outline" className="border-border bg-card/80">
+                        <ArrowDownToLine className="w-4 h-4 mr-2" />
+                        Jump to Rank
+                      </Button>
+                    </form>
+                  )}
                 </div>
-              )}
-              
-              
-              
-              {/* Bronze - 3rd place */}
-              {topThree[2] && (
-                <div className="md:order-3">
-                  <PodiumCard member={topThree[2]} position={3} />
+                {remaining.length === 0 && !pagesQuery.isFetching && (
+                  <p className="text-center text-muted-foreground py-12">No members match these filters.</p>
+                )}
+                {/* Only the rows in view are rendered; the podium above stays put while this scrolls */}
+                <div
+                  id="rankings"
+                  ref={containerRef}
+                  className={`${remaining.length > 0 ? "h-[70vh]" : "hidden"} overflow-y-auto -mx-2 px-2`}
+                >
+                  <div className="relative" style={{ height: totalHeight }}>
+                    {remaining.slice(start, end).map((member, offset) => {
+                      const index = start + offset;
+                      return (
+                        <div
+                          key={member.id}
+                          id={`member-${member.id}`}
+                          className="absolute inset-x-0 pb-4 transition-[top] duration-500 ease-in-out"
+                          style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                        >
+                          <LeaderboardRow
+                            member={member}
+                            index={index + podium.length}
+                            onSelect={setHistoryMember}
+                            highlight={movedIds.has(member.id)}
+                            previousRank={lastSeasonRanks.get(member.id)}
+                            rankChange={rankChange(member)}
+                            tied={tiedRanks.has(member.rank)}
+                            isCurrentUser={member.id === myMemberId}
+                            badges={badgesByMember?.get(member.id)}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
                 </div>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* Remaining Rankings */}
-        {remaining.length > 0 && (
-          <div className="max-w-4xl mx-auto">
-            <h2 className="text-3xl font-bold text-center mb-8 text-primary">Rankings</h2>
-            <div className="space-y-4">
-              {remaining.map((member, index) => (
-                <LeaderboardRow 
-                  key={member.id} 
-                  member={member} 
-                  index={index + 3} 
-                />
-              ))}
-            </div>
-          </div>
-        )}
+                {(isFetchingNextPage || isFetchingPreviousPage) && (
+                  <p className="text-center text-sm text-muted-foreground mt-2">Loading more rankings...</p>
+                )}
+              </div>
+            )}
 
-        {members.length === 0 && (
-          <div className="text-center py-12">
-            <Trophy className="w-24 h-24 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-2xl font-bold mb-2">No Rankings Yet</h3>
-            <p className="text-muted-foreground">Be the first to join the leaderboard!</p>
-          </div>
-        )}
+            {podium.length === 0 && remaining.length === 0 && !filtering && (
+              <div className="text-center py-12">
+                <Trophy className="w-24 h-24 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-2xl font-bold mb-2">No Rankings Yet</h3>
+                <p className="text-muted-foreground">Be the first to join the leaderboard!</p>
+              </div>
+            )}
+          </TabsContent>
+
+          {showTeams && board && (
+            <TabsContent value="teams">
+              <TeamLeaderboard board={board} teams={teamStandings} myTeamId={linkedMemberQuery.data?.team_id} />
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
+
+      <ScoreHistory
+        member={historyMember}
+        open={!!historyMember}
+        onOpenChange={(open) => !open && setHistoryMember(null)}
+      />
+
+      {currentUserId && (
+        <ScoreClaimDialog
+          members={claimMembers}
+          defaultMemberId={myMemberId}
+          open={isClaimOpen}
+          onOpenChange={setIsClaimOpen}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CircleDollarSign, History } from "lucide-react";
+import MemberAvatar from "@/components/MemberAvatar";
+import MemberBadges from "@/components/MemberBadges";
+import { formatRank, getRankIcon, getRankStyle } from "@/lib/ranks";
+import type { AwardedBadge, RankedMember } from "@/data";
+
+interface LeaderboardRowProps {
+  member: RankedMember;
+  index: number;
+  onSelect?: (member: RankedMember) => void;
+  highlight?: boolean;
+  previousRank?: number;
+  /** Places gained since the board's checkpoint; negative when the member dropped */
+  rankChange?: number;
+  tied?: boolean;
+  isCurrentUser?: boolean;
+  /** Where the name links to; null for no link. Defaults to the member's profile. */
+  href?: string | null;
+  /** Extra text after the rank, e.g. a team's size */
+  detail?: string;
+  /** Badges the member has earned */
+  badges?: AwardedBadge[];
+}
+
+export default function LeaderboardRow({
+  member,
+  index,
+  onSelect,
+  highlight,
+  previousRank,
+  rankChange,
+  tied,
+  isCurrentUser,
+  href = `/u/${member.id}`,
+  detail,
+  badges = [],
+}: LeaderboardRowProps) {
+  return (
+    <Card
+      onClick={() => onSelect?.(member)}
+      className={`${getRankStyle(member.rank)} transition-all duration-300 hover:scale-[1.02] group ${onSelect ? "cursor-pointer" : ""} ${highlight ? "ring-2 ring-primary animate-score-bounce" : ""} ${isCurrentUser ? "ring-2 ring-primary bg-primary/10" : ""}`}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-3 min-w-0 flex-1">
+            <div className="flex items-center justify-center w-8 h-8">
+              {getRankIcon(member.rank)}
+            </div>
+            <MemberAvatar
+              name={member.name}
+              src={member.avatar_url}
+              className="w-12 h-12 border border-white/20"
+            />
+            <div className="min-w-0 flex-1">
+              <h4 className="font-semibold text-lg truncate">
+                {href ? (
+                  <Link
+                    to={href}
+                    onClick={(e) => e.stopPropagation()}
+                    className="hover:underline"
+                  >
+                    {member.name}
+                  </Link>
+                ) : (
+                  member.name
+                )}
+                {isCurrentUser && <Badge className="ml-2 align-middle">You</Badge>}
+                <MemberBadges badges={badges} className="ml-2 align-middle" />
+              </h4>
+              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                <span>Rank {formatRank(member.rank, tied)}</span>
+                {!!rankChange && (
+                  <span
+                    className={`font-semibold ${rankChange > 0 ? "text-success" : "text-destructive"}`}
+                    title={`${Math.abs(rankChange)} ${Math.abs(rankChange) === 1 ? "place" : "places"} ${rankChange > 0 ? "up" : "down"}`}
+                  >
+                    {rankChange > 0 ? "▲" : "▼"}{Math.abs(rankChange)}
+                  </span>
+                )}
+                {detail && <span>· {detail}</span>}
+                {previousRank !== undefined && (
+                  <span>· Last season #{previousRank}</span>
+                )}
+                {onSelect && (
+                  <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <History className="w-3 h-3" />
+                    History
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="flex items-center gap-2">
+              <CircleDollarSign className="w-4 h-4 text-warning" />
+              <span className="text-xl font-bold text-warning">
+                {member.score.toLocaleString()}
+              </span>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
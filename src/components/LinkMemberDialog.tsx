@@ -0,0 +1,182 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Link2, Link2Off, Ticket } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateInvite, useLinkMember, useUsers } from "@/data";
+
+interface LinkableMember {
+  id: string;
+  name: string;
+  profile_id?: string | null;
+}
+
+interface LinkMemberDialogProps {
+  boardId: string;
+  member: LinkableMember | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function LinkMemberDialog({ boardId, member, open, onOpenChange }: LinkMemberDialogProps) {
+  const [selectedProfileId, setSelectedProfileId] = useState("");
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const { data: users = [] } = useUsers();
+  const linkMember = useLinkMember(boardId);
+  const createInvite = useCreateInvite();
+  const { toast } = useToast();
+
+  const profiles = [...users].sort((a, b) => (a.full_name ?? "").localeCompare(b.full_name ?? ""));
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedProfileId("");
+    setInviteCode(null);
+  }, [open]);
+
+  const linkedProfile = profiles.find((profile) => profile.id === member?.profile_id);
+  const inviteUrl = inviteCode ? `${window.location.origin}/claim/${inviteCode}` : "";
+
+  const setLink = async (profileId: string | null) => {
+    if (!member) return;
+
+    try {
+      await linkMember.mutateAsync({ memberId: member.id, profileId });
+
+      onOpenChange(false);
+
+      toast({
+        title: "Success",
+        description: profileId ? `${member.name} is now linked` : `${member.name} is no longer linked`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error linking member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to link member. That account may already be linked on this board.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    if (!member) return;
+
+    try {
+      setInviteCode(await createInvite.mutateAsync(member.id));
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create invite",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    await navigator.clipboard.writeText(inviteUrl);
+    toast({
+      title: "Copied",
+      description: "Invite link copied to the clipboard",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="w-5 h-5" />
+            Link {member?.name}
+          </DialogTitle>
+          <DialogDescription>
+            A linked account sees this member highlighted as "You" on the leaderboard.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          {member?.profile_id && (
+            <div className="flex items-center justify-between gap-4 rounded-md border border-border p-3">
+              <div className="text-sm">
+                <div className="text-muted-foreground">Linked to</div>
+                <div className="font-medium">
+                  {linkedProfile ? linkedProfile.full_name || linkedProfile.email : "Unknown account"}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLink(null)}
+                className="border-border"
+              >
+                <Link2Off className="w-4 h-4 mr-2" />
+                Unlink
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="link-profile">Link to an existing account</Label>
+            <div className="flex gap-2">
+              <Select value={selectedProfileId} onValueChange={setSelectedProfileId}>
+                <SelectTrigger id="link-profile" className="bg-input border-border">
+                  <SelectValue placeholder="Choose an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.full_name ? `${profile.full_name} (${profile.email})` : profile.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => setLink(selectedProfileId)}
+                disabled={!selectedProfileId || selectedProfileId === member?.profile_id}
+                className="bg-gradient-gold text-primary-foreground"
+              >
+                Link
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Or invite them to claim it</Label>
+            {inviteCode ? (
+              <div className="flex gap-2">
+                <Input readOnly value={inviteUrl} className="bg-input border-border font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={handleCopyInvite} className="border-border">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={handleCreateInvite} className="w-full border-border">
+                <Ticket className="w-4 h-4 mr-2" />
+                Create Invite Link
+              </Button>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Invite links work once and expire after 14 days.
+            </p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,23 @@
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/** Shown instead of the app when its code could not be loaded, e.g. offline or after a new deploy. */
+export default function LoadError() {
+  return (
+    <div className="min-h-screen bg-gradient-main text-foreground flex items-center justify-center p-4">
+      <div className="max-w-xl text-center">
+        <div className="w-24 h-24 bg-destructive/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <AlertTriangle className="w-12 h-12 text-destructive" />
+        </div>
+        <h1 className="text-3xl font-bold mb-4">Something Went Wrong</h1>
+        <p className="text-muted-foreground mb-6">
+          The app could not be loaded. Check your connection and try again.
+        </p>
+        <Button onClick={() => window.location.reload()} variant="outline" className="border-border">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Reload
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { getAvatarColor, getInitials } from "@/lib/avatars";
+
+interface MemberAvatarProps {
+  name: string;
+  src?: string | null;
+  className?: string;
+  fallbackClassName?: string;
+}
+
+/** Member photo, or coloured initials when there is no photo or it fails to load. */
+export default function MemberAvatar({ name, src, className, fallbackClassName }: MemberAvatarProps) {
+  return (
+    <Avatar className={className}>
+      <AvatarImage src={src ?? undefined} alt={name} className="object-cover" />
+      <AvatarFallback
+        className={cn("font-semibold text-white", fallbackClassName)}
+        style={{ backgroundColor: getAvatarColor(name) }}
+      >
+        {getInitials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
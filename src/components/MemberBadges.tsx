@@ -0,0 +1,27 @@
+import { format } from "date-fns";
+import { describeBadgeRule, getBadgeIcon } from "@/lib/badges";
+import type { AwardedBadge } from "@/data";
+
+interface MemberBadgesProps {
+  badges: AwardedBadge[];
+  className?: string;
+}
+
+/** A member's badges as a row of icons, named on hover. */
+export default function MemberBadges({ badges, className = "" }: MemberBadgesProps) {
+  if (badges.length === 0) return null;
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${className}`}>
+      {badges.map(({ id, badge, awarded_at }) => {
+        const Icon = getBadgeIcon(badge.icon);
+        const label = `${badge.name}: ${badge.description || describeBadgeRule(badge)} (${format(new Date(awarded_at), "PP")})`;
+        return (
+          <span key={id} title={label} aria-label={label} role="img">
+            <Icon className="w-4 h-4 text-primary" />
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import { hasMemberFilters } from "@/lib/search";
+import type { MemberFilters, MemberSort } from "@/data";
+
+// Typing only updates the filters once it pauses, so each keystroke is not a new query
+const TYPING_DELAY_MS = 300;
+
+interface MemberFilterBarProps {
+  filters: MemberFilters;
+  onChange: (filters: MemberFilters) => void;
+  className?: string;
+}
+
+const parseScore = (value: string) => (value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value));
+
+export default function MemberFilterBar({ filters, onChange, className }: MemberFilterBarProps) {
+  const [draft, setDraft] = useState({ search: "", min: "", max: "" });
+
+  // Follow filters changed elsewhere (a shared link, the back button) without
+  // undoing what is still being typed
+  useEffect(() => {
+    setDraft((current) => ({
+      search: current.search.trim() === (filters.search ?? "") ? current.search : filters.search ?? "",
+      min: parseScore(current.min) === filters.minScore ? current.min : filters.minScore?.toString() ?? "",
+      max: parseScore(current.max) === filters.maxScore ? current.max : filters.maxScore?.toString() ?? "",
+    }));
+  }, [filters.search, filters.minScore, filters.maxScore]);
+
+  useEffect(() => {
+    const next = {
+      ...filters,
+      search: draft.search.trim() || undefined,
+      minScore: parseScore(draft.min),
+      maxScore: parseScore(draft.max),
+    };
+    if (next.search === filters.search && next.minScore === filters.minScore && next.maxScore === filters.maxScore) {
+      return;
+    }
+
+    const timeout = setTimeout(() => onChange(next), TYPING_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, filters, onChange]);
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className ?? ""}`}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={draft.search}
+          onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+          placeholder="Search names"
+          aria-label="Search names"
+          className="w-56 pl-9 bg-input border-border"
+        />
+      </div>
+      <Input
+        type="number"
+        value={draft.min}
+        onChange={(e) => setDraft({ ...draft, min: e.target.value })}
+        placeholder="Min score"
+        aria-label="Minimum score"
+        className="w-28 bg-input border-border"
+      />
+      <Input
+        type="number"
+        value={draft.max}
+        onChange={(e) => setDraft({ ...draft, max: e.target.value })}
+        placeholder="Max score"
+        aria-label="Maximum score"
+        className="w-28 bg-input border-border"
+      />
+      <Select
+        value={filters.sort ?? "rank"}
+        onValueChange={(value) => onChange({ ...filters, sort: value as MemberSort })}
+      >
+        <SelectTrigger className="w-44 bg-input border-border">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="rank">Sort by rank</SelectItem>
+          <SelectItem value="name">Sort by name</SelectItem>
+          <SelectItem value="updated">Recently updated</SelectItem>
+        </SelectContent>
+      </Select>
+      {hasMemberFilters(filters) && (
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setDraft({ search: "", min: "", max: "" });
+            onChange({});
+          }}
+        >
+          <X className="w-4 h-4 mr-2" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import MemberAvatar from "@/components/MemberAvatar";
+import { useDeletedMembers, usePurgeMembers, useRestoreMembers, type Board, type Member } from "@/data";
+
+interface MemberTrashProps {
+  board: Board;
+}
+
+export default function MemberTrash({ board }: MemberTrashProps) {
+  const [purging, setPurging] = useState<Member | null>(null);
+  const { toast } = useToast();
+
+  const { data: deletedMembers = [], isLoading } = useDeletedMembers(board.id);
+  const restoreMembers = useRestoreMembers(board.id);
+  const purgeMembers = usePurgeMembers(board.id);
+
+  const handleRestore = async (member: Member) => {
+    try {
+      await restoreMembers.mutateAsync([member.id]);
+
+      toast({
+        title: "Member Restored",
+        description: `${member.name} is back on ${board.name}`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error restoring member:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore member",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purging) return;
+
+    try {
+      await purgeMembers.mutateAsync([purging.id]);
+      setPurging(null);
+
+      toast({
+        title: "Success",
+        description: `${purging.name} was permanently deleted`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error purging member:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete member",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="w-5 h-5 text-primary" />
+          Trash
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Deleted members of {board.name}. They are left out of the rankings until restored.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead>Name</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deletedMembers.map((member) => (
+                <TableRow key={member.id} className="border-border">
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <MemberAvatar
+                        name={member.name}
+                        src={member.avatar_url}
+                        className="w-10 h-10 border border-border"
+                      />
+                      <span className="font-medium">{member.name}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-bold">{member.score.toLocaleString()}</TableCell>
+                  <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                    {member.deleted_at && format(new Date(member.deleted_at), "PP p")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={restoreMembers.isPending}
+                        onClick={() => handleRestore(member)}
+                        className="border-border hover:bg-accent"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setPurging(member)}
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete permanently
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!isLoading && deletedMembers.length === 0 && (
+          <div className="text-center py-12">
+            <Trash2 className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-bold mb-2">Trash Is Empty</h3>
+            <p className="text-muted-foreground">Deleted members show up here so they can be restored.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!purging} onOpenChange={(open) => !open && setPurging(null)}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Delete Permanently</DialogTitle>
+            <DialogDescription>
+              {purging?.name} and their score history will be permanently deleted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handlePurge}
+              disabled={purgeMembers.isPending}
+              variant="destructive"
+              className="flex-1"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              {purgeMembers.isPending ? "Deleting..." : "Delete permanently"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setPurging(null)}
+              className="border-border"
+            >
+              Cancel
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
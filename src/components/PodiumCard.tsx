@@ -0,0 +1,89 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CircleDollarSign } from "lucide-react";
+import MemberAvatar from "@/components/MemberAvatar";
+import MemberBadges from "@/components/MemberBadges";
+import { formatRank, getRankIcon, getRankStyle } from "@/lib/ranks";
+import type { AwardedBadge, RankedMember } from "@/data";
+
+interface PodiumCardProps {
+  member: RankedMember;
+  position: 1 | 2 | 3;
+  onSelect?: (member: RankedMember) => void;
+  tied?: boolean;
+  isCurrentUser?: boolean;
+  /** Briefly bounce the card, e.g. after the member's rank changed */
+  highlight?: boolean;
+  /** Where the name links to; null for no link. Defaults to the member's profile. */
+  href?: string | null;
+  /** Extra line under the score, e.g. a team's size */
+  detail?: string;
+  /** Badges the member has earned */
+  badges?: AwardedBadge[];
+}
+
+export default function PodiumCard({
+  member,
+  position,
+  onSelect,
+  tied,
+  isCurrentUser,
+  highlight,
+  href = `/u/${member.id}`,
+  detail,
+  badges = [],
+}: PodiumCardProps) {
+  const heights = {
+    1: "h-48",
+    2: "h-48", 
+    3: "h-48"
+  };
+
+  return (
+    <div className={`${heights[position]} flex flex-col justify-end animate-float`}>
+      <Card
+        onClick={() => onSelect?.(member)}
+        className={`${getRankStyle(member.rank)} relative overflow-hidden transition-all duration-300 hover:scale-105 ${onSelect ? "cursor-pointer" : ""} ${highlight ? "animate-score-bounce" : ""} ${isCurrentUser ? "ring-4 ring-primary ring-offset-2 ring-offset-background" : ""}`}
+      >
+        <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent -skew-x-12 animate-rank-shine" />
+        <CardContent className="p-6 text-center">
+          <div className="relative mb-4">
+            <MemberAvatar
+              name={member.name}
+              src={member.avatar_url}
+              className="w-20 h-20 mx-auto border-2 border-white/20"
+              fallbackClassName="text-lg font-bold"
+            />
+            <div className="absolute -top-2 -right-2">
+              {getRankIcon(member.rank)}
+            </div>
+          </div>
+          <h3 className="font-bold text-lg mb-2">
+            {href ? (
+              <Link
+                to={href}
+                onClick={(e) => e.stopPropagation()}
+                className="hover:underline"
+              >
+                {member.name}
+              </Link>
+            ) : (
+              member.name
+            )}
+            {isCurrentUser && <Badge className="ml-2 align-middle">You</Badge>}
+          </h3>
+          <div className="flex items-center justify-center gap-2">
+            <CircleDollarSign className="w-4 h-4 text-success" />
+            <span className="text-2xl font-bold">{member.score.toLocaleString()}</span>
+          </div>
+          <Badge variant="secondary" className="mt-2">
+            {formatRank(member.rank, tied)}
+          </Badge>
+          {detail && <p className="mt-2 text-sm text-muted-foreground">{detail}</p>}
+          <MemberBadges badges={badges} className="mt-2 justify-center" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
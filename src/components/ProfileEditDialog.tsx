@@ -0,0 +1,130 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import AvatarUpload from "@/components/AvatarUpload";
+import { Save, UserPen } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUpdateProfile, type Member } from "@/data";
+
+const MAX_NAME_LENGTH = 100;
+
+interface ProfileEditDialogProps {
+  /** Member rows linked to the signed-in user; all of them are updated together */
+  members: Member[];
+  name: string;
+  avatarUrl: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ProfileEditDialog({
+  members,
+  name,
+  avatarUrl,
+  open,
+  onOpenChange,
+}: ProfileEditDialogProps) {
+  const [displayName, setDisplayName] = useState("");
+  const [avatarImage, setAvatarImage] = useState<Blob | null | undefined>(undefined);
+  const updateProfile = useUpdateProfile();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setDisplayName(name);
+    setAvatarImage(undefined);
+  }, [open, name, avatarUrl]);
+
+  const handleSave = async () => {
+    const trimmed = displayName.trim();
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+      toast({
+        title: "Invalid Name",
+        description: `Display names must be 1 to ${MAX_NAME_LENGTH} characters`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await updateProfile.mutateAsync({ members, name: trimmed, avatar: avatarImage });
+
+      onOpenChange(false);
+
+      toast({
+        title: "Success",
+        description: "Your profile has been updated",
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update your profile",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserPen className="w-5 h-5" />
+            Edit Profile
+          </DialogTitle>
+          <DialogDescription>
+            Changes apply on every board your account is linked to.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="profile-name">Display Name</Label>
+            <Input
+              id="profile-name"
+              value={displayName}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="bg-input border-border"
+            />
+          </div>
+          <div>
+            <Label>Photo</Label>
+            <AvatarUpload
+              name={displayName}
+              currentUrl={avatarUrl}
+              image={avatarImage}
+              onImageChange={setAvatarImage}
+            />
+          </div>
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleSave}
+              disabled={updateProfile.isPending}
+              className="flex-1 bg-gradient-gold text-primary-foreground"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {updateProfile.isPending ? "Saving..." : "Save Profile"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-border"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
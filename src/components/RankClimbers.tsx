@@ -0,0 +1,44 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { TrendingUp } from "lucide-react";
+import MemberAvatar from "@/components/MemberAvatar";
+import type { RankClimber } from "@/data";
+
+interface RankClimbersProps {
+  climbers: RankClimber[];
+}
+
+export default function RankClimbers({ climbers }: RankClimbersProps) {
+  return (
+    <Card className="bg-gradient-card border-border shadow-card max-w-4xl mx-auto mb-16">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-primary" />
+          Biggest Climbers This Week
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-3">
+          {climbers.map((climber) => (
+            <li key={climber.id} className="flex items-center gap-3">
+              <MemberAvatar
+                name={climber.name}
+                src={climber.avatar_url}
+                className="w-10 h-10 border border-border"
+              />
+              <Link to={`/u/${climber.id}`} className="font-semibold truncate flex-1 hover:underline">
+                {climber.name}
+              </Link>
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                #{climber.previous_rank} → #{climber.rank}
+              </span>
+              <span className="w-14 text-right font-bold text-success">
+                ▲{climber.previous_rank - climber.rank}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_EVIDENCE_BYTES } from "@/lib/claims";
+import { useSubmitClaim, type ScoreEventKind } from "@/data";
+
+interface ScoreClaimDialogProps {
+  members: { id: string; name: string }[];
+  /** Member preselected when the dialog opens, usually the signed-in user's own row */
+  defaultMemberId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ScoreClaimDialog({ members, defaultMemberId, open, onOpenChange }: ScoreClaimDialogProps) {
+  const [memberId, setMemberId] = useState("");
+  const [kind, setKind] = useState<ScoreEventKind>("delta");
+  const [value, setValue] = useState("");
+  const [note, setNote] = useState("");
+  const [evidence, setEvidence] = useState<File | null>(null);
+  const submitClaim = useSubmitClaim();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setMemberId(defaultMemberId ?? "");
+    setKind("delta");
+    setValue("");
+    setNote("");
+    setEvidence(null);
+  }, [open, defaultMemberId]);
+
+  const handleEvidenceChange = (file: File | undefined) => {
+    if (file && file.size > MAX_EVIDENCE_BYTES) {
+      toast({
+        title: "File Too Large",
+        description: "Evidence must be 5 MB or smaller",
+        variant: "destructive"
+      });
+      return;
+    }
+    setEvidence(file ?? null);
+  };
+
+  const handleSubmit = async () => {
+    const amount = Number(value);
+    if (!memberId || value.trim() === "" || !Number.isInteger(amount)) {
+      toast({
+        title: "Error",
+        description: "Please choose a member and enter a whole number",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await submitClaim.mutateAsync({
+        memberId,
+        kind,
+        value: amount,
+        note: note.trim() || null,
+        evidence,
+      });
+
+      onOpenChange(false);
+
+      toast({
+        title: "Score Submitted",
+        description: "An admin will review your claim shortly",
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error submitting score claim:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit your score",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Send className="w-5 h-5" />
+            Submit a Score
+          </DialogTitle>
+          <DialogDescription>
+            Your claim is added to the leaderboard once an admin approves it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Member</Label>
+            <Select value={memberId} onValueChange={setMemberId}>
+              <SelectTrigger className="bg-input border-border">
+                <SelectValue placeholder="Choose a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Change</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as ScoreEventKind)}>
+                <SelectTrigger className="bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="delta">Add points</SelectItem>
+                  <SelectItem value="absolute">Set total score</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="claim-value">{kind === "delta" ? "Points" : "New score"}</Label>
+              <Input
+                id="claim-value"
+                type="number"
+                step={1}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="bg-input border-border"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="claim-note">Note (optional)</Label>
+            <Textarea
+              id="claim-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Won the Friday match 3–1"
+              className="bg-input border-border"
+            />
+          </div>
+          <div>
+            <Label htmlFor="claim-evidence">Evidence (optional)</Label>
+            <Input
+              id="claim-evidence"
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e) => handleEvidenceChange(e.target.files?.[0])}
+              className="bg-input border-border"
+            />
+          </div>
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleSubmit}
+              disabled={submitClaim.isPending}
+              className="flex-1 bg-gradient-gold text-primary-foreground"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {submitClaim.isPending ? "Submitting..." : "Submit Claim"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-border"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
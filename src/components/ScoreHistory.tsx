@@ -0,0 +1,96 @@
+import { useEffect } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { History, ArrowRight } from "lucide-react";
+import { useScoreHistory, type ScoreEvent } from "@/data";
+
+interface ScoreHistoryProps {
+  member: { id: string; name: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatChange = (event: ScoreEvent) => {
+  const change = event.new_score - event.previous_score;
+  if (change === 0) return "±0";
+  return change > 0 ? `+${change.toLocaleString()}` : change.toLocaleString();
+};
+
+export default function ScoreHistory({ member, open, onOpenChange }: ScoreHistoryProps) {
+  const { data: events = [], isLoading: loading, error } = useScoreHistory(open ? member?.id : undefined);
+
+  useEffect(() => {
+    if (error) console.error('Error fetching score history:', error);
+  }, [error]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-card border-border w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Score History
+          </SheetTitle>
+          <SheetDescription>
+            {member ? `Every score change for ${member.name}` : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-6 pr-4">
+          {loading ? (
+            <p className="text-center text-muted-foreground py-12">Loading history...</p>
+          ) : events.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No score changes recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {events.map((event) => (
+                <li
+                  key={event.id}
+                  className="rounded-lg border border-border bg-gradient-card p-4"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge
+                      variant="outline"
+                      className={event.new_score >= event.previous_score ? "text-success" : "text-destructive"}
+                    >
+                      {formatChange(event)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(event.created_at), "PPp")}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2 font-semibold">
+                    <span className="text-muted-foreground">{event.previous_score.toLocaleString()}</span>
+                    <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                    <span>{event.new_score.toLocaleString()}</span>
+                    {event.kind === 'absolute' && (
+                      <span className="text-xs font-normal text-muted-foreground">(set)</span>
+                    )}
+                  </div>
+                  {event.reason && (
+                    <p className="text-sm mt-2">{event.reason}</p>
+                  )}
+                  {(event.actor?.full_name || event.claim_id) && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {event.claim_id ? "Approved claim" : null}
+                      {event.claim_id && event.actor?.full_name ? " · " : null}
+                      {event.actor?.full_name ? `by ${event.actor.full_name}` : null}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
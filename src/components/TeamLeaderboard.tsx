@@ -0,0 +1,75 @@
+import { UsersRound } from "lucide-react";
+import PodiumCard from "@/components/PodiumCard";
+import LeaderboardRow from "@/components/LeaderboardRow";
+import { getTiedRanks } from "@/lib/ranks";
+import type { Board, TeamStanding } from "@/data";
+
+interface TeamLeaderboardProps {
+  board: Board;
+  teams: TeamStanding[];
+  /** Team of the signed-in user's member, highlighted like their own row */
+  myTeamId?: string | null;
+}
+
+// First place in the middle, second on the left, third on the right
+const PODIUM_ORDER = ["md:order-2", "md:order-1", "md:order-3"];
+
+const describeScoring = (board: Board) => {
+  if (board.team_scoring === "average") return "Team score is the average of its members' scores";
+  if (board.team_scoring === "top_n_sum") return `Team score is the total of its best ${board.team_top_n} members' scores`;
+  return "Team score is the total of its members' scores";
+};
+
+const describeSize = (team: TeamStanding) => `${team.member_count} ${team.member_count === 1 ? "member" : "members"}`;
+
+export default function TeamLeaderboard({ board, teams, myTeamId }: TeamLeaderboardProps) {
+  const topThree = teams.slice(0, 3);
+  const remaining = teams.slice(3);
+  const tiedRanks = getTiedRanks(teams);
+
+  return (
+    <>
+      <p className="flex items-center justify-center gap-2 text-muted-foreground mb-8">
+        <UsersRound className="w-4 h-4" />
+        {describeScoring(board)}
+      </p>
+
+      <div className="mb-16">
+        <h2 className="text-3xl font-bold text-center mb-8 text-primary">Top Teams</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-4xl mx-auto">
+          {topThree.map((team, index) => (
+            <div key={team.id} className={PODIUM_ORDER[index]}>
+              <PodiumCard
+                member={team}
+                position={(index + 1) as 1 | 2 | 3}
+                tied={tiedRanks.has(team.rank)}
+                isCurrentUser={team.id === myTeamId}
+                href={null}
+                detail={describeSize(team)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {remaining.length > 0 && (
+        <div className="max-w-4xl mx-auto">
+          <h2 className="text-3xl font-bold text-center mb-6 text-primary">Team Rankings</h2>
+          <div className="space-y-4">
+            {remaining.map((team, index) => (
+              <LeaderboardRow
+                key={team.id}
+                member={team}
+                index={index + topThree.length}
+                tied={tiedRanks.has(team.rank)}
+                isCurrentUser={team.id === myTeamId}
+                href={null}
+                detail={describeSize(team)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Edit, Plus, Save, Trash2, UsersRound, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDeleteTeam, useSaveTeam, useTeams, type Board, type Member } from "@/data";
+
+interface TeamManagerProps {
+  board: Board;
+  /** The board's members, to show how many are on each team */
+  members: Member[];
+}
+
+export default function TeamManager({ board, members }: TeamManagerProps) {
+  const [newTeamName, setNewTeamName] = useState("");
+  const [editingTeam, setEditingTeam] = useState<{ id: string; name: string } | null>(null);
+  const { toast } = useToast();
+
+  const { data: teams = [], isLoading } = useTeams(board.id);
+  const saveTeam = useSaveTeam(board.id);
+  const deleteTeam = useDeleteTeam(board.id);
+
+  const memberCount = (teamId: string) => members.filter((m) => m.team_id === teamId).length;
+
+  const handleSave = async (name: string, id?: string) => {
+    if (!name.trim()) {
+      toast({
+        title: "Invalid Team",
+        description: "Please enter a team name",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await saveTeam.mutateAsync({ id, name: name.trim() });
+      if (id) setEditingTeam(null);
+      else setNewTeamName("");
+
+      toast({
+        title: "Success",
+        description: id ? "Team renamed" : `Team "${name.trim()}" created`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error saving team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save team. The name may already be taken on this board.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (teamId: string) => {
+    try {
+      await deleteTeam.mutateAsync(teamId);
+
+      toast({
+        title: "Success",
+        description: "Team deleted; its members are still on the board",
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error deleting team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete team",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <UsersRound className="w-5 h-5 text-primary" />
+            Teams
+          </CardTitle>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave(newTeamName);
+            }}
+            className="flex gap-2"
+          >
+            <Input
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              placeholder="New team name"
+              className="w-56 bg-input border-border"
+            />
+            <Button type="submit" disabled={saveTeam.isPending} className="bg-gradient-gold text-primary-foreground">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Team
+            </Button>
+          </form>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Put members on a team from the Team column of the Members tab.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead>Team</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.map((team) => (
+                <TableRow key={team.id} className="border-border">
+                  <TableCell>
+                    {editingTeam?.id === team.id ? (
+                      <Input
+                        value={editingTeam.name}
+                        onChange={(e) => setEditingTeam({ ...editingTeam, name: e.target.value })}
+                        className="w-56 bg-input border-border"
+                      />
+                    ) : (
+                      <span className="font-medium">{team.name}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{memberCount(team.id)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {editingTeam?.id === team.id ? (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => handleSave(editingTeam.name, team.id)}
+                            disabled={saveTeam.isPending}
+                            className="bg-success text-success-foreground"
+                          >
+                            <Save className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditingTeam(null)}
+                            className="border-border"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditingTeam({ id: team.id, name: team.name })}
+                            className="border-border hover:bg-accent"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={deleteTeam.isPending}
+                            onClick={() => handleDelete(team.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!isLoading && teams.length === 0 && (
+          <div className="text-center py-12">
+            <UsersRound className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-bold mb-2">No Teams Yet</h3>
+            <p className="text-muted-foreground">Add a team to rank {board.name} by team as well.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ShieldCheck, UserCog, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ASSIGNABLE_ROLES, type AppRole } from "@/lib/permissions";
+import { useCurrentUser, useSetRole, useUsers, type UserAccount } from "@/data";
+
+export default function UserManagement() {
+  const { data: currentUser } = useCurrentUser();
+  const { data: users = [], isLoading: loading, error: usersError } = useUsers();
+  const setRole = useSetRole();
+  const pendingUserId = setRole.isPending ? setRole.variables.userId : null;
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!usersError) return;
+    console.error('Error fetching users:', usersError);
+  }, [usersError]);
+
+  const handleToggleRole = async (user: UserAccount, role: AppRole, grant: boolean) => {
+    const label = ASSIGNABLE_ROLES.find((r) => r.role === role)?.label ?? role;
+    const displayName = user.full_name || user.email;
+
+    try {
+      await setRole.mutateAsync({ userId: user.id, role, granted: grant });
+      toast({
+        title: "Success",
+        description: grant
+          ? `${displayName} is now a ${label.toLowerCase()}`
+          : `${displayName} is no longer a ${label.toLowerCase()}`,
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast({
+        title: "Error",
+        description: role === 'admin' && !grant
+          ? "Failed to revoke admin access. There must always be at least one admin."
+          : "Failed to change role",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const adminCount = users.filter((user) => user.roles.includes('admin')).length;
+
+  return (
+    <Card className="bg-gradient-card border-border shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCog className="w-5 h-5 text-primary" />
+          Users
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead>Roles</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id} className="border-border">
+                  <TableCell className="font-medium">
+                    {user.full_name || "—"}
+                    {user.id === currentUser?.id && (
+                      <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{user.email}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {format(new Date(user.created_at), "PP")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {user.roles.map((role) => (
+                        <Badge key={role} variant={role === 'admin' ? "default" : "secondary"}>
+                          {role}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={pendingUserId === user.id}
+                          className="border-border"
+                        >
+                          <ShieldCheck className="w-4 h-4 mr-2" />
+                          Roles
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-64">
+                        <DropdownMenuLabel>Roles</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        {ASSIGNABLE_ROLES.map(({ role, label, description }) => {
+                          const granted = user.roles.includes(role);
+                          const isLastAdmin = role === 'admin' && granted && adminCount <= 1;
+
+                          return (
+                            <DropdownMenuCheckboxItem
+                              key={role}
+                              checked={granted}
+                              disabled={isLastAdmin}
+                              onCheckedChange={(checked) => handleToggleRole(user, role, checked)}
+                            >
+                              <div>
+                                <div>{label}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {isLastAdmin ? "The last admin cannot be removed" : description}
+                                </div>
+                              </div>
+                            </DropdownMenuCheckboxItem>
+                          );
+                        })}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!loading && users.length === 0 && (
+          <div className="text-center py-12">
+            <Users className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-bold mb-2">No Users</h3>
+            <p className="text-muted-foreground">Users appear here after they sign up.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
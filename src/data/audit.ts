@@ -0,0 +1,20 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { backend } from "./backend";
+import type { AuditPageOptions } from "./backend/types";
+import { queryKeys } from "./keys";
+
+export const AUDIT_PAGE_SIZE = 50;
+
+/** Narrowing of the audit log by table, action and who made the change; omitted fields match everything. */
+export type AuditFilters = Pick<AuditPageOptions, "table" | "action" | "actorId">;
+
+/** Recorded changes to members and roles, newest first, a page at a time. */
+export function useAuditLog(filters: AuditFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: [...queryKeys.auditLog, filters],
+    queryFn: ({ pageParam }) => backend.audit.page({ ...filters, offset: pageParam, limit: AUDIT_PAGE_SIZE }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.length < AUDIT_PAGE_SIZE ? undefined : pages.length * AUDIT_PAGE_SIZE,
+  });
+}
@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Permission } from "@/lib/permissions";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { AppUser } from "./types";
+
+/** The signed-in user, or null. Kept in sync with sign-ins and sign-outs. */
+export function useCurrentUser() {
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () => backend.auth.onUserChange((user) => queryClient.setQueryData(queryKeys.currentUser, user)),
+    [queryClient]
+  );
+
+  return useQuery({
+    queryKey: queryKeys.currentUser,
+    queryFn: (): Promise<AppUser | null> => backend.auth.getUser(),
+    staleTime: Infinity,
+  });
+}
+
+/** What the signed-in user may do; empty when signed out. */
+export function usePermissions() {
+  const { data: user } = useCurrentUser();
+
+  return useQuery({
+    queryKey: queryKeys.permissions(user?.id ?? ""),
+    queryFn: (): Promise<Permission[]> => backend.roles.getMyPermissions(),
+    enabled: !!user,
+  });
+}
+
+export function useIsAdmin() {
+  const { data: user } = useCurrentUser();
+
+  return useQuery({
+    queryKey: queryKeys.isAdmin(user?.id ?? ""),
+    queryFn: (): Promise<boolean> => backend.roles.hasRole(user.id, 'admin'),
+    enabled: !!user,
+  });
+}
@@ -0,0 +1,25 @@
+import type { DataBackend } from "./types";
+
+export type * from "./types";
+
+/** Whether the app runs on in-browser data instead of the hosted Supabase project. */
+export const usesLocalData = import.meta.env.VITE_DATA_BACKEND === "local";
+
+/**
+ * The storage the data hooks read and write. Set `VITE_DATA_BACKEND=local` to
+ * run against in-browser data instead of the hosted Supabase project. It is
+ * unset until {@link loadBackend} resolves, which main.tsx waits for before
+ * loading the app.
+ */
+export let backend: DataBackend;
+
+/**
+ * Create the configured backend. Each one is imported on demand, so local mode
+ * never loads the Supabase client or needs its connection settings.
+ */
+export async function loadBackend(): Promise<DataBackend> {
+  backend = usesLocalData
+    ? (await import("./local")).createLocalBackend()
+    : (await import("./supabase")).createSupabaseBackend();
+  return backend;
+}
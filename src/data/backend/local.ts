@@ -0,0 +1,1118 @@
+import { Constants, type Json, type Tables } from "@/integrations/supabase/types";
+import { applyMemberFilters } from "@/lib/search";
+import type {
+  AccountName,
+  AppUser,
+  AwardedBadge,
+  Badge,
+  Board,
+  Member,
+  MemberInsert,
+  Season,
+  SeasonStanding,
+  Team,
+  TeamStandingRow,
+} from "../types";
+import { MEMBER_SORTS } from "./sorting";
+import type { DataBackend, MemberChange } from "./types";
+
+type ScoreEventRow = Tables<"score_events">;
+type MemberBadgeRow = Tables<"member_badges">;
+type BadgeStreakRow = Tables<"badge_streaks">;
+type RankSnapshotRow = Tables<"rank_snapshots">;
+type ProfileRow = Tables<"profiles">;
+type UserRoleRow = Tables<"user_roles">;
+type AuditRow = Tables<"audit_log">;
+type ClaimRow = Tables<"score_claims">;
+type InviteRow = Tables<"member_invites">;
+
+interface LocalData {
+  boards: Board[];
+  members: Member[];
+  seasons: Season[];
+  standings: SeasonStanding[];
+  scoreEvents: ScoreEventRow[];
+  teams: Team[];
+  badges: Badge[];
+  memberBadges: MemberBadgeRow[];
+  badgeStreaks: BadgeStreakRow[];
+  rankSnapshots: RankSnapshotRow[];
+  users: ProfileRow[];
+  userRoles: UserRoleRow[];
+  auditLog: AuditRow[];
+  claims: ClaimRow[];
+  invites: InviteRow[];
+}
+
+const STORAGE_KEY = "leaderboard:local-data";
+
+// Offline there is no sign-in; everyone is this admin
+const LOCAL_USER: AppUser = { id: "00000000-0000-4000-8000-000000000001", email: "admin@localhost" };
+const LOCAL_USER_NAME = "Local Admin";
+
+const SEED_MEMBERS: [string, number][] = [
+  ["Jordyn Kenter", 96239],
+  ["Alena Bator", 84787],
+  ["Carl Oliver", 82139],
+  ["Davis Curtis", 80857],
+  ["Isona Othid", 76128],
+  ["Makenna George", 71667],
+  ["Kianna Batista", 68439],
+  ["Maxith Cullen", 66981],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_DAYS_KEPT = 30;
+const INVITE_DAYS_VALID = 14;
+// localStorage only holds a few megabytes, so the oldest activity is dropped
+const AUDIT_ENTRIES_KEPT = 1000;
+
+const now = () => new Date().toISOString();
+const newId = () => crypto.randomUUID();
+// Snapshot days are UTC dates, like current_date in the database
+const dayOf = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const compareNullsLast = (a: number | null, b: number | null) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return b - a;
+};
+
+// Code point order; paging only needs an order that stays the same between pages
+const compareValues = (a: number | string, b: number | string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Data saved before the trash existed has no deleted_at at all
+const isActive = (member: Member) => !member.deleted_at;
+
+// Rank refreshes are not user edits, so the audit log leaves them out like the database does
+const differsOnlyInRank = (a: Member, b: Member) =>
+  JSON.stringify({ ...a, rank: null }) === JSON.stringify({ ...b, rank: null });
+
+// Photos are stored inline, and a copy in every log entry would soon fill localStorage
+const auditedRow = (member: Member): Json =>
+  member.avatar_url?.startsWith("data:")
+    ? { ...member, avatar_url: `[photo, ${Math.ceil(member.avatar_url.length / 1024)} KB]` }
+    : member;
+
+// Ranks for rows already in order, in the board's rank style
+const rankInOrder = (rankStyle: Board["rank_style"], sorted: { score: number }[]) => {
+  let rank = 0;
+  let distinctScores = 0;
+  return sorted.map((row, index) => {
+    const tied = index > 0 && sorted[index - 1].score === row.score;
+    if (!tied) distinctScores += 1;
+
+    if (rankStyle === "ordinal") rank = index + 1;
+    else if (rankStyle === "dense") rank = distinctScores;
+    else if (!tied) rank = index + 1;
+
+    return rank;
+  });
+};
+
+/** Same ordering and rank styles as refresh_leaderboard_ranks in the database. */
+const rankMembers = (board: Board, members: Member[]): Member[] => {
+  const byScore = (a: Member, b: Member) =>
+    board.scoring_direction === "lower_wins" ? a.score - b.score : b.score - a.score;
+  const byTieBreaker = (a: Member, b: Member) => {
+    if (board.tie_breaker === "earliest_to_score") return a.score_reached_at.localeCompare(b.score_reached_at);
+    if (board.tie_breaker === "secondary_score") return compareNullsLast(a.secondary_score, b.secondary_score);
+    return 0;
+  };
+
+  const sorted = [...members].sort(
+    (a, b) => byScore(a, b) || byTieBreaker(a, b) || a.created_at.localeCompare(b.created_at)
+  );
+
+  const ranks = rankInOrder(board.rank_style, sorted);
+  return sorted.map((member, index) => (member.rank === ranks[index] ? member : { ...member, rank: ranks[index] }));
+};
+
+/** Same scoring and ranking as team_standings in the database. */
+const rankTeams = (board: Board, teams: Team[], members: Member[]): TeamStandingRow[] => {
+  const best = (a: number, b: number) => (board.scoring_direction === "lower_wins" ? a - b : b - a);
+
+  const totals = teams.flatMap((team) => {
+    const teamMembers = members.filter((m) => m.team_id === team.id);
+    if (teamMembers.length === 0) return [];
+
+    const scores = teamMembers.map((m) => m.score).sort(best);
+    const counted = board.team_scoring === "top_n_sum" ? scores.slice(0, board.team_top_n) : scores;
+    const sum = counted.reduce((total, score) => total + score, 0);
+
+    return [{
+      id: team.id,
+      name: team.name,
+      score: board.team_scoring === "average" ? Math.round((sum / scores.length) * 100) / 100 : sum,
+      member_count: teamMembers.length,
+      updated_at: [team.updated_at, ...teamMembers.map((m) => m.updated_at)].sort().reverse()[0],
+    }];
+  });
+
+  const sorted = totals.sort((a, b) => best(a.score, b.score) || a.name.localeCompare(b.name));
+  const ranks = rankInOrder(board.rank_style, sorted);
+  return sorted.map((team, index) => ({ ...team, rank: ranks[index] }));
+};
+
+const newBoard = (values: Partial<Board> & Pick<Board, "name" | "slug">): Board => ({
+  id: newId(),
+  description: null,
+  is_private: false,
+  scoring_direction: "higher_wins",
+  rank_style: "competition",
+  tie_breaker: "earliest_to_score",
+  rank_checkpoint: "daily",
+  team_scoring: "sum",
+  team_top_n: 3,
+  created_at: now(),
+  updated_at: now(),
+  ...values,
+});
+
+const newSeason = (boardId: string, number: number, name: string, carryOverPercent = 0): Season => ({
+  id: newId(),
+  leaderboard_id: boardId,
+  number,
+  name,
+  carry_over_percent: carryOverPercent,
+  started_at: now(),
+  ended_at: null,
+  created_at: now(),
+});
+
+const newMember = (boardId: string, name: string, score: number): Member => ({
+  id: newId(),
+  leaderboard_id: boardId,
+  name,
+  score,
+  rank: null,
+  avatar_url: null,
+  external_id: null,
+  profile_id: null,
+  secondary_score: null,
+  deleted_at: null,
+  team_id: null,
+  score_reached_at: now(),
+  created_at: now(),
+  updated_at: now(),
+});
+
+const newBadge = (values: Partial<Badge> & Pick<Badge, "name" | "rule" | "threshold">): Badge => ({
+  id: newId(),
+  leaderboard_id: null,
+  description: null,
+  icon: "award",
+  days: 0,
+  created_at: now(),
+  updated_at: now(),
+  ...values,
+});
+
+const seedUsers = (): ProfileRow[] => [{
+  id: LOCAL_USER.id,
+  email: LOCAL_USER.email,
+  full_name: LOCAL_USER_NAME,
+  role: "admin",
+  created_at: now(),
+  updated_at: now(),
+}];
+
+const seedUserRoles = (): UserRoleRow[] => [{ id: newId(), user_id: LOCAL_USER.id, role: "admin" }];
+
+// The same badges the database starts with
+const seedBadges = (): Badge[] => [
+  newBadge({ name: "Leader", description: "Reached #1 on a leaderboard", icon: "crown", rule: "rank_held", threshold: 1 }),
+  newBadge({ name: "Season Champion", description: "Finished a season in first place", icon: "trophy", rule: "season_finish", threshold: 1 }),
+  newBadge({ name: "Podium Finish", description: "Finished a season in the top 3", icon: "medal", rule: "season_finish", threshold: 3 }),
+];
+
+const seedData = (): LocalData => {
+  const board = newBoard({ name: "Skill Up", slug: "main", description: "Compete for glory and climb to the top!" });
+  const members = SEED_MEMBERS.map(([name, score]) => newMember(board.id, name, score));
+
+  return {
+    boards: [board],
+    members: rankMembers(board, members),
+    seasons: [newSeason(board.id, 1, "Season 1")],
+    standings: [],
+    teams: [],
+    badges: seedBadges(),
+    memberBadges: [],
+    badgeStreaks: [],
+    rankSnapshots: [],
+    users: seedUsers(),
+    userRoles: seedUserRoles(),
+    auditLog: [],
+    claims: [],
+    invites: [],
+    scoreEvents: members.map((member) => ({
+      id: newId(),
+      member_id: member.id,
+      kind: "absolute",
+      value: member.score,
+      previous_score: 0,
+      new_score: member.score,
+      reason: "Initial score",
+      actor_id: null,
+      claim_id: null,
+      created_at: member.created_at,
+    })),
+  };
+};
+
+const loadData = (): LocalData => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      // Fill in what data saved by earlier versions of the app lacks
+      const parsed = JSON.parse(saved);
+      return {
+        ...parsed,
+        boards: parsed.boards.map((b: Board) => ({ team_scoring: "sum", team_top_n: 3, rank_checkpoint: "daily", ...b })),
+        teams: parsed.teams ?? [],
+        badges: parsed.badges ?? seedBadges(),
+        memberBadges: parsed.memberBadges ?? [],
+        badgeStreaks: parsed.badgeStreaks ?? [],
+        rankSnapshots: parsed.rankSnapshots ?? [],
+        users: parsed.users ?? seedUsers(),
+        userRoles: parsed.userRoles ?? seedUserRoles(),
+        auditLog: parsed.auditLog ?? [],
+        claims: parsed.claims ?? [],
+        invites: parsed.invites ?? [],
+      };
+    }
+  } catch (error) {
+    console.error('Error reading local data, starting over:', error);
+  }
+  return seedData();
+};
+
+const readAsDataUrl = (image: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(image);
+  });
+
+/**
+ * Keeps all data in memory and saves it to localStorage, so the app runs
+ * without a Supabase project. It mirrors the database's triggers (ledger,
+ * ranks, seasons, audit log) but not its row level security: the local user
+ * can do everything.
+ */
+export const createLocalBackend = (): DataBackend => {
+  const data = loadData();
+  const listeners = new Set<{ boardId: string; listener: (change: MemberChange) => void }>();
+  // Claim attachments are too large for localStorage, so they last until the page is closed
+  const evidenceFiles = new Map<string, string>();
+  // Member rows as the audit log last saw them
+  let auditedMembers = new Map(data.members.map((m) => [m.id, m]));
+
+  const audit = (table: string, action: string, recordId: string, before: Json | null, after: Json | null) => {
+    data.auditLog.push({
+      id: newId(),
+      table_name: table,
+      record_id: recordId,
+      action,
+      before,
+      after,
+      actor_id: LOCAL_USER.id,
+      created_at: now(),
+    });
+    data.auditLog = data.auditLog.slice(-AUDIT_ENTRIES_KEPT);
+  };
+
+  // Log the member rows added, changed or deleted since the last save, like record_audit_log
+  const auditMembers = () => {
+    const current = new Map(data.members.map((m) => [m.id, m]));
+    current.forEach((member, id) => {
+      const before = auditedMembers.get(id);
+      if (!before) {
+        audit("leaderboard_members", "INSERT", id, null, auditedRow(member));
+      } else if (before !== member && !differsOnlyInRank(before, member)) {
+        audit("leaderboard_members", "UPDATE", id, auditedRow(before), auditedRow(member));
+      }
+    });
+    auditedMembers.forEach((member, id) => {
+      if (!current.has(id)) audit("leaderboard_members", "DELETE", id, auditedRow(member), null);
+    });
+    auditedMembers = current;
+  };
+
+  const persist = () => {
+    auditMembers();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  };
+
+  const notify = (boardId: string, change: MemberChange) =>
+    listeners.forEach((entry) => entry.boardId === boardId && entry.listener(change));
+
+  const findBoard = (boardId: string) => {
+    const board = data.boards.find((b) => b.id === boardId);
+    if (!board) throw new Error(`Leaderboard ${boardId} does not exist`);
+    return board;
+  };
+
+  const findTeam = (teamId: string) => {
+    const team = data.teams.find((t) => t.id === teamId);
+    if (!team) throw new Error(`Team ${teamId} does not exist`);
+    return team;
+  };
+
+  const findMember = (memberId: string) => {
+    const member = data.members.find((m) => m.id === memberId);
+    if (!member) throw new Error(`Leaderboard member ${memberId} does not exist`);
+    return member;
+  };
+
+  const findBadge = (badgeId: string) => {
+    const badge = data.badges.find((b) => b.id === badgeId);
+    if (!badge) throw new Error(`Badge ${badgeId} does not exist`);
+    return badge;
+  };
+
+  const findUser = (userId: string) => {
+    const user = data.users.find((u) => u.id === userId);
+    if (!user) throw new Error(`User ${userId} does not exist`);
+    return user;
+  };
+
+  const accountName = (userId: string | null): AccountName | null => {
+    const user = data.users.find((u) => u.id === userId);
+    return user ? { full_name: user.full_name, email: user.email } : null;
+  };
+
+  const withBadge = (award: MemberBadgeRow): AwardedBadge => ({ ...award, badge: findBadge(award.badge_id) });
+
+  // Same rules and streak tracking as award_badges in the database, on the given boards or on all of them
+  const awardBadges = (boardIds?: string[]) => {
+    const inScope = (member: Member) => !boardIds || boardIds.includes(member.leaderboard_id);
+    const appliesTo = (badge: Badge, member: Member) =>
+      badge.leaderboard_id === null || badge.leaderboard_id === member.leaderboard_id;
+    // A rank the whole board shares, e.g. everyone on 0 after a season reset, does not count
+    const isTied = (boardId: string) => {
+      const ranks = data.members.filter((m) => m.leaderboard_id === boardId && m.rank !== null).map((m) => m.rank);
+      return ranks.length > 1 && new Set(ranks).size === 1;
+    };
+    const ranked = data.members.filter((m) => inScope(m) && m.rank !== null && !isTied(m.leaderboard_id));
+    const holds = (badge: Badge, member: Member) => appliesTo(badge, member) && member.rank <= badge.threshold;
+
+    data.badgeStreaks = data.badgeStreaks.filter((streak) => {
+      const badge = data.badges.find((b) => b.id === streak.badge_id);
+      if (!badge) return false;
+      const member = data.members.find((m) => m.id === streak.member_id);
+      if (member && !inScope(member)) return true;
+      return ranked.some((m) => m.id === streak.member_id && holds(badge, m));
+    });
+    data.badges
+      .filter((badge) => badge.rule === "rank_held")
+      .forEach((badge) =>
+        ranked
+          .filter((m) => holds(badge, m))
+          .filter((m) => !data.badgeStreaks.some((s) => s.badge_id === badge.id && s.member_id === m.id))
+          .forEach((m) => data.badgeStreaks.push({ badge_id: badge.id, member_id: m.id, since: now() }))
+      );
+
+    const qualifies = (badge: Badge, member: Member) => {
+      if (badge.rule === "score_reached") return member.score >= badge.threshold;
+      // Unranked members close a season with rank 0; board badges only count that board's seasons
+      if (badge.rule === "season_finish") {
+        return data.standings.some(
+          (s) =>
+            s.member_id === member.id &&
+            s.rank > 0 &&
+            s.rank <= badge.threshold &&
+            (badge.leaderboard_id === null ||
+              data.seasons.some((season) => season.id === s.season_id && season.leaderboard_id === badge.leaderboard_id))
+        );
+      }
+      const streak = data.badgeStreaks.find((s) => s.badge_id === badge.id && s.member_id === member.id);
+      return !!streak && Date.now() - Date.parse(streak.since) >= badge.days * DAY_MS;
+    };
+
+    data.badges.forEach((badge) =>
+      data.members
+        .filter((m) => inScope(m) && isActive(m) && appliesTo(badge, m) && qualifies(badge, m))
+        .filter((m) => !data.memberBadges.some((a) => a.badge_id === badge.id && a.member_id === m.id))
+        .forEach((m) => data.memberBadges.push({ id: newId(), badge_id: badge.id, member_id: m.id, awarded_at: now() }))
+    );
+  };
+
+  // Same as snapshot_ranks in the database: the first change of a day records the ranks it started with
+  const snapshotRanks = () => {
+    const today = dayOf(Date.now());
+    if (data.rankSnapshots.some((s) => s.taken_on === today)) return;
+
+    const oldest = dayOf(Date.now() - SNAPSHOT_DAYS_KEPT * DAY_MS);
+    data.rankSnapshots = [
+      ...data.rankSnapshots.filter((s) => s.taken_on >= oldest),
+      ...data.members
+        .filter((m) => isActive(m) && m.rank !== null)
+        .map((m) => ({ member_id: m.id, leaderboard_id: m.leaderboard_id, rank: m.rank, taken_on: today })),
+    ];
+  };
+
+  // Each member's first snapshot on or after a day, like checkpoint_ranks in the database
+  const checkpointRanks = (boardId: string, since: string) => {
+    const first = new Map<string, RankSnapshotRow>();
+    data.rankSnapshots
+      .filter((s) => s.leaderboard_id === boardId && s.taken_on >= since)
+      .sort((a, b) => a.taken_on.localeCompare(b.taken_on))
+      .forEach((s) => !first.has(s.member_id) && first.set(s.member_id, s));
+    return [...first.values()].map(({ member_id, rank }) => ({ member_id, rank }));
+  };
+
+  // Check every id up front, so bulk changes apply to all members or none
+  const findMembers = (memberIds: string[]) => {
+    if (memberIds.length === 0) throw new Error("No members were selected");
+    return memberIds.map(findMember);
+  };
+
+  // Re-rank a board after a change and tell subscribers about every row that moved.
+  // Members in the trash lose their rank.
+  const commitBoard = (boardId: string, changedIds: string[] = []) => {
+    const board = findBoard(boardId);
+    snapshotRanks();
+    const others = data.members.filter((m) => m.leaderboard_id !== boardId);
+    const previous = new Map(data.members.map((m) => [m.id, m]));
+    const boardMembers = data.members.filter((m) => m.leaderboard_id === boardId);
+    const ranked = rankMembers(board, boardMembers.filter(isActive));
+    const trashed = boardMembers
+      .filter((m) => !isActive(m))
+      .map((m) => (m.rank === null ? m : { ...m, rank: null }));
+
+    data.members = [...others, ...ranked, ...trashed];
+    awardBadges([boardId]);
+    persist();
+
+    ranked
+      .filter((m) => previous.get(m.id) !== m || changedIds.includes(m.id))
+      .forEach((member) => notify(boardId, { type: "upsert", member }));
+  };
+
+  // Batch changes skip re-ranking and commit the board once at the end
+  const writeMember = (memberId: string, updates: Partial<Member>, commit = true) => {
+    const member = findMember(memberId);
+    const updated: Member = {
+      ...member,
+      ...updates,
+      updated_at: now(),
+      score_reached_at: updates.score !== undefined && updates.score !== member.score ? now() : member.score_reached_at,
+    };
+
+    data.members = data.members.map((m) => (m.id === memberId ? updated : m));
+    if (commit) commitBoard(member.leaderboard_id, [memberId]);
+  };
+
+  const trashMembers = (memberIds: string[]) => {
+    const trashing = findMembers(memberIds).filter(isActive);
+    const trashingIds = new Set(trashing.map((m) => m.id));
+    data.members = data.members.map((m) =>
+      trashingIds.has(m.id) ? { ...m, deleted_at: now(), updated_at: now() } : m
+    );
+    new Set(trashing.map((m) => m.leaderboard_id)).forEach((boardId) => {
+      commitBoard(boardId);
+      trashing
+        .filter((m) => m.leaderboard_id === boardId)
+        .forEach((m) => notify(boardId, { type: "delete", id: m.id }));
+    });
+    return trashing.length;
+  };
+
+  const deleteMember = (memberId: string) => {
+    const member = findMember(memberId);
+    data.members = data.members.filter((m) => m.id !== memberId);
+    data.scoreEvents = data.scoreEvents.filter((e) => e.member_id !== memberId);
+    data.standings = data.standings.map((s) => (s.member_id === memberId ? { ...s, member_id: null } : s));
+    data.memberBadges = data.memberBadges.filter((a) => a.member_id !== memberId);
+    data.badgeStreaks = data.badgeStreaks.filter((s) => s.member_id !== memberId);
+    data.claims = data.claims.filter((c) => c.member_id !== memberId);
+    data.invites = data.invites.filter((i) => i.member_id !== memberId);
+    commitBoard(member.leaderboard_id);
+    notify(member.leaderboard_id, { type: "delete", id: memberId });
+  };
+
+  const recordScore = (
+    memberId: string,
+    kind: ScoreEventRow["kind"],
+    value: number,
+    reason: string | null,
+    commit = true,
+    claimId: string | null = null
+  ) => {
+    const member = findMember(memberId);
+    const newScore = kind === "delta" ? member.score + value : value;
+
+    data.scoreEvents.push({
+      id: newId(),
+      member_id: memberId,
+      kind,
+      value,
+      previous_score: member.score,
+      new_score: newScore,
+      reason,
+      actor_id: LOCAL_USER.id,
+      claim_id: claimId,
+      created_at: now(),
+    });
+
+    writeMember(memberId, { score: newScore }, commit);
+  };
+
+  // A new member and the ledger entry for its starting score, committed by the caller
+  const insertMember = (boardId: string, values: MemberInsert & Partial<Member>) => {
+    const { name, score, ...rest } = values;
+    const member = { ...newMember(boardId, name, score ?? 0), ...rest };
+    data.members.push(member);
+    data.scoreEvents.push({
+      id: newId(),
+      member_id: member.id,
+      kind: "absolute",
+      value: member.score,
+      previous_score: 0,
+      new_score: member.score,
+      reason: "Initial score",
+      actor_id: LOCAL_USER.id,
+      claim_id: null,
+      created_at: member.created_at,
+    });
+    return member;
+  };
+
+  // Streaks can complete while the app is closed, like the database's hourly check
+  awardBadges();
+  persist();
+
+  return {
+    auth: {
+      getUser: async () => LOCAL_USER,
+      onUserChange: () => () => {},
+      // Everyone is signed in as the local admin already
+      signIn: async () => {},
+      signUp: async () => {},
+      signOut: async () => {},
+    },
+
+    roles: {
+      // The local user is the only account and always stays an admin
+      getMyPermissions: async () => [...Constants.public.Enums.app_permission],
+      hasRole: async (userId, role) => data.userRoles.some((r) => r.user_id === userId && r.role === role),
+      grant: async (userId, role) => {
+        findUser(userId);
+        if (data.userRoles.some((r) => r.user_id === userId && r.role === role)) {
+          throw new Error(`The user already has the ${role} role`);
+        }
+
+        const granted: UserRoleRow = { id: newId(), user_id: userId, role };
+        data.userRoles.push(granted);
+        audit("user_roles", "INSERT", granted.id, null, granted);
+        persist();
+      },
+      revoke: async (userId, role) => {
+        const revoked = data.userRoles.find((r) => r.user_id === userId && r.role === role);
+        if (!revoked) return;
+        if (role === "admin" && data.userRoles.filter((r) => r.role === "admin").length <= 1) {
+          throw new Error("There must always be at least one admin");
+        }
+
+        data.userRoles = data.userRoles.filter((r) => r !== revoked);
+        audit("user_roles", "DELETE", revoked.id, revoked, null);
+        persist();
+      },
+    },
+
+    users: {
+      list: async () =>
+        [...data.users]
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(({ id, email, full_name, created_at }) => ({
+            id,
+            email,
+            full_name,
+            created_at,
+            roles: data.userRoles.filter((r) => r.user_id === id).map((r) => r.role),
+          })),
+    },
+
+    boards: {
+      list: async () => [...data.boards].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      save: async (values, id) => {
+        if (data.boards.some((b) => b.slug === values.slug && b.id !== id)) {
+          throw new Error(`The slug "${values.slug}" is already taken`);
+        }
+
+        if (id) {
+          const board = { ...findBoard(id), ...values, updated_at: now() };
+          data.boards = data.boards.map((b) => (b.id === id ? board : b));
+          commitBoard(id);
+          return board;
+        }
+
+        const board = newBoard(values);
+        data.boards.push(board);
+        data.seasons.push(newSeason(board.id, 1, "Season 1"));
+        persist();
+        return board;
+      },
+    },
+
+    members: {
+      list: async (boardId) => data.members.filter((m) => m.leaderboard_id === boardId && isActive(m)),
+      page: async (boardId, { limit, cursor, backwards, maxRank = Infinity, sort = "rank", ...filters }) => {
+        const { column, ascending } = MEMBER_SORTS[sort];
+        const direction = ascending ? 1 : -1;
+        const valueOf = (m: Member) => m[column] as number | string;
+
+        const rows = applyMemberFilters(
+          data.members.filter((m) => m.leaderboard_id === boardId && m.rank !== null && m.rank <= maxRank),
+          filters
+        ).sort((a, b) => direction * (compareValues(valueOf(a), valueOf(b)) || compareValues(a.id, b.id)));
+
+        if (!cursor) return rows.slice(0, limit);
+
+        // A cursor without an id falls after its value going forwards and before it going backwards
+        const position = (m: Member) =>
+          direction * compareValues(valueOf(m), cursor.value) ||
+          (cursor.id === undefined ? (backwards ? 1 : -1) : direction * compareValues(m.id, cursor.id));
+
+        if (backwards) {
+          const before = rows.filter((m) => position(m) < 0);
+          return before.slice(Math.max(0, before.length - limit));
+        }
+        return rows.filter((m) => position(m) > 0).slice(0, limit);
+      },
+      get: async (memberId) => data.members.find((m) => m.id === memberId && isActive(m)) ?? null,
+      findByProfile: async (boardId, profileId) =>
+        data.members.find((m) => m.leaderboard_id === boardId && m.profile_id === profileId && isActive(m)) ?? null,
+      listByProfile: async (profileId) =>
+        data.members
+          .filter((m) => m.profile_id === profileId && isActive(m))
+          .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity)),
+      add: async (boardId, values) => {
+        const member = insertMember(boardId, values);
+        commitBoard(boardId, [member.id]);
+        return findMember(member.id);
+      },
+      update: async (memberId, updates) => {
+        const member = findMember(memberId);
+        if (updates.team_id && findTeam(updates.team_id).leaderboard_id !== member.leaderboard_id) {
+          throw new Error("Members can only join teams on their own board");
+        }
+        // A person appears at most once on each board, like the database's unique index
+        if (
+          updates.profile_id &&
+          data.members.some(
+            (m) => m.leaderboard_id === member.leaderboard_id && m.profile_id === updates.profile_id && m.id !== memberId
+          )
+        ) {
+          throw new Error("That account is already linked to a member on this board");
+        }
+        // Direct score edits are logged like the database's log_direct_score_change trigger
+        if (updates.score !== undefined && updates.score !== member.score) {
+          recordScore(memberId, "absolute", updates.score, "Score edited");
+        }
+        writeMember(memberId, updates);
+      },
+      remove: async (memberId) => {
+        trashMembers([memberId]);
+      },
+      removeMany: async (memberIds) => trashMembers(memberIds),
+      listDeleted: async (boardId) =>
+        data.members
+          .filter((m) => m.leaderboard_id === boardId && !isActive(m))
+          .sort((a, b) => (b.deleted_at ?? "").localeCompare(a.deleted_at ?? "")),
+      restore: async (memberIds) => {
+        const restoring = findMembers(memberIds).filter((m) => !isActive(m));
+        const restoringIds = restoring.map((m) => m.id);
+        data.members = data.members.map((m) =>
+          restoringIds.includes(m.id) ? { ...m, deleted_at: null, updated_at: now() } : m
+        );
+        new Set(restoring.map((m) => m.leaderboard_id)).forEach((boardId) => commitBoard(boardId, restoringIds));
+        return restoring.length;
+      },
+      purge: async (memberIds) => {
+        const purging = findMembers(memberIds);
+        if (purging.some(isActive)) throw new Error("Only members in the trash can be deleted permanently");
+
+        purging.forEach((m) => deleteMember(m.id));
+        return purging.length;
+      },
+      move: async (memberIds, boardId) => {
+        findBoard(boardId);
+        const moving = findMembers(memberIds).filter((m) => m.leaderboard_id !== boardId);
+        const clashes = data.members.some(
+          (existing) =>
+            existing.leaderboard_id === boardId &&
+            moving.some(
+              (m) =>
+                (m.profile_id !== null && m.profile_id === existing.profile_id) ||
+                (m.external_id !== null && m.external_id === existing.external_id)
+            )
+        );
+        if (clashes) throw new Error("Some of the selected members are already on that board");
+
+        const movingIds = new Set(moving.map((m) => m.id));
+        // Teams belong to a board, so moved members leave theirs
+        data.members = data.members.map((m) =>
+          movingIds.has(m.id) ? { ...m, leaderboard_id: boardId, team_id: null, updated_at: now() } : m
+        );
+        new Set(moving.map((m) => m.leaderboard_id)).forEach((sourceId) => {
+          commitBoard(sourceId);
+          moving
+            .filter((m) => m.leaderboard_id === sourceId)
+            .forEach((m) => notify(sourceId, { type: "delete", id: m.id }));
+        });
+        commitBoard(boardId, [...movingIds]);
+        return moving.length;
+      },
+      // Same matching as import_members in the database, re-ranking once at the end
+      import: async (boardId, rows) => {
+        findBoard(boardId);
+        if (rows.some((row) => !row.name?.trim())) throw new Error("Every imported row needs a name");
+
+        let inserted = 0;
+        let updated = 0;
+        const touchedIds: string[] = [];
+
+        rows.forEach((row) => {
+          const name = row.name.trim();
+          const onBoard = data.members
+            .filter((m) => m.leaderboard_id === boardId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at));
+          const existing =
+            (row.external_id !== null && onBoard.find((m) => m.external_id === row.external_id)) ||
+            onBoard.find((m) => m.name.trim().toLowerCase() === name.toLowerCase());
+
+          if (!existing) {
+            const member = insertMember(boardId, {
+              name,
+              score: row.score ?? 0,
+              avatar_url: row.avatar_url,
+              external_id: row.external_id,
+            });
+            touchedIds.push(member.id);
+            inserted += 1;
+            return;
+          }
+
+          writeMember(
+            existing.id,
+            {
+              name,
+              deleted_at: null,
+              avatar_url: row.avatar_url ?? existing.avatar_url,
+              external_id: row.external_id ?? existing.external_id,
+            },
+            false
+          );
+          if (row.score !== null && row.score !== existing.score) {
+            recordScore(existing.id, "absolute", row.score, "Bulk import", false);
+          }
+          touchedIds.push(existing.id);
+          updated += 1;
+        });
+
+        commitBoard(boardId, touchedIds);
+        return { inserted, updated };
+      },
+      // Photos are stored inline on the member row
+      uploadAvatar: async (_memberId, image) => readAsDataUrl(image),
+      removeAvatars: async () => {},
+      subscribe: (boardId, listener) => {
+        const entry = { boardId, listener };
+        listeners.add(entry);
+        return () => {
+          listeners.delete(entry);
+        };
+      },
+    },
+
+    scores: {
+      record: async ({ memberId, kind, value, reason }) => recordScore(memberId, kind, value, reason || null),
+      // Like bulk_adjust_scores, each board is re-ranked once after every score is in
+      recordMany: async ({ memberIds, kind, value, reason }) => {
+        const adjusting = [...new Map(findMembers(memberIds).map((m) => [m.id, m])).values()];
+        adjusting.forEach((m) => recordScore(m.id, kind, value, reason || "Bulk adjustment", false));
+        new Set(adjusting.map((m) => m.leaderboard_id)).forEach((boardId) =>
+          commitBoard(
+            boardId,
+            adjusting.filter((m) => m.leaderboard_id === boardId).map((m) => m.id)
+          )
+        );
+        return adjusting.length;
+      },
+      history: async (memberId) =>
+        data.scoreEvents
+          .filter((e) => e.member_id === memberId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((e) => ({ ...e, actor: e.actor_id === LOCAL_USER.id ? { full_name: LOCAL_USER_NAME } : null })),
+    },
+
+    seasons: {
+      list: async (boardId) =>
+        data.seasons.filter((s) => s.leaderboard_id === boardId).sort((a, b) => b.number - a.number),
+      standings: async (seasonId) =>
+        data.standings.filter((s) => s.season_id === seasonId).sort((a, b) => a.rank - b.rank),
+      standingsForMembers: async (memberIds) =>
+        data.standings.filter((s) => s.member_id !== null && memberIds.includes(s.member_id)),
+      close: async (boardId, carryOverPercent, nextName) => {
+        if (carryOverPercent < 0 || carryOverPercent > 100) {
+          throw new Error("Carry-over must be between 0 and 100 percent");
+        }
+
+        const closing = data.seasons.find((s) => s.leaderboard_id === boardId && !s.ended_at);
+        if (!closing) throw new Error(`Leaderboard ${boardId} has no open season`);
+
+        const members = data.members.filter((m) => m.leaderboard_id === boardId && isActive(m));
+        data.standings.push(
+          ...members.map((m) => ({
+            id: newId(),
+            season_id: closing.id,
+            member_id: m.id,
+            name: m.name,
+            avatar_url: m.avatar_url,
+            score: m.score,
+            rank: m.rank ?? 0,
+            created_at: now(),
+          }))
+        );
+
+        data.seasons = data.seasons.map((s) => (s.id === closing.id ? { ...s, ended_at: now() } : s));
+        data.seasons.push(
+          newSeason(boardId, closing.number + 1, nextName?.trim() || `Season ${closing.number + 1}`, carryOverPercent)
+        );
+
+        // Reset through the ledger so every member's history explains the new score,
+        // re-ranking once like the database's single UPDATE
+        members.forEach((m) =>
+          recordScore(
+            m.id,
+            "absolute",
+            Math.round((m.score * carryOverPercent) / 100),
+            `${closing.name} closed (${carryOverPercent}% carried over)`,
+            false
+          )
+        );
+        commitBoard(boardId, members.map((m) => m.id));
+      },
+    },
+
+    movement: {
+      checkpointRanks: async (boardId, since) => checkpointRanks(boardId, since),
+      climbers: async (boardId, since, limit) => {
+        const previous = new Map(checkpointRanks(boardId, since).map((c) => [c.member_id, c.rank]));
+        return data.members
+          .filter((m) => m.leaderboard_id === boardId && isActive(m) && m.rank !== null)
+          .filter((m) => previous.has(m.id) && m.rank < previous.get(m.id))
+          .map(({ id, name, avatar_url, score, rank, updated_at }) => ({
+            id,
+            name,
+            avatar_url,
+            score,
+            rank,
+            previous_rank: previous.get(id),
+            updated_at,
+          }))
+          .sort((a, b) => b.previous_rank - b.rank - (a.previous_rank - a.rank) || a.rank - b.rank)
+          .slice(0, limit);
+      },
+    },
+
+    teams: {
+      list: async (boardId) =>
+        data.teams.filter((t) => t.leaderboard_id === boardId).sort((a, b) => a.name.localeCompare(b.name)),
+      standings: async (boardId) =>
+        rankTeams(
+          findBoard(boardId),
+          data.teams.filter((t) => t.leaderboard_id === boardId),
+          data.members.filter((m) => m.leaderboard_id === boardId && isActive(m))
+        ),
+      save: async (boardId, name, id) => {
+        if (data.teams.some((t) => t.leaderboard_id === boardId && t.name === name && t.id !== id)) {
+          throw new Error(`There is already a team called "${name}" on this board`);
+        }
+
+        if (id) {
+          const team = { ...findTeam(id), name, updated_at: now() };
+          data.teams = data.teams.map((t) => (t.id === id ? team : t));
+          persist();
+          return team;
+        }
+
+        const team: Team = { id: newId(), leaderboard_id: boardId, name, created_at: now(), updated_at: now() };
+        data.teams.push(team);
+        persist();
+        return team;
+      },
+      remove: async (teamId) => {
+        const team = findTeam(teamId);
+        const memberIds = data.members.filter((m) => m.team_id === teamId).map((m) => m.id);
+        data.teams = data.teams.filter((t) => t.id !== teamId);
+        data.members = data.members.map((m) => (m.team_id === teamId ? { ...m, team_id: null, updated_at: now() } : m));
+        commitBoard(team.leaderboard_id, memberIds);
+      },
+    },
+
+    badges: {
+      list: async (boardId) =>
+        data.badges
+          .filter((b) => b.leaderboard_id === null || b.leaderboard_id === boardId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      save: async (values, id) => {
+        if (values.days !== undefined && values.days < 0) throw new Error("Days must be zero or more");
+        if (values.rule !== "score_reached" && values.threshold <= 0) throw new Error("The rank must be at least 1");
+
+        const badge = id ? { ...findBadge(id), ...values, updated_at: now() } : newBadge(values);
+        data.badges = id ? data.badges.map((b) => (b.id === id ? badge : b)) : [...data.badges, badge];
+        awardBadges();
+        persist();
+        return badge;
+      },
+      remove: async (badgeId) => {
+        findBadge(badgeId);
+        data.badges = data.badges.filter((b) => b.id !== badgeId);
+        data.memberBadges = data.memberBadges.filter((a) => a.badge_id !== badgeId);
+        data.badgeStreaks = data.badgeStreaks.filter((s) => s.badge_id !== badgeId);
+        persist();
+      },
+      awarded: async (boardId) => {
+        const memberIds = new Set(data.members.filter((m) => m.leaderboard_id === boardId).map((m) => m.id));
+        return data.memberBadges
+          .filter((a) => memberIds.has(a.member_id))
+          .sort((a, b) => a.awarded_at.localeCompare(b.awarded_at))
+          .map(withBadge);
+      },
+      forMembers: async (memberIds) =>
+        data.memberBadges
+          .filter((a) => memberIds.includes(a.member_id))
+          .sort((a, b) => a.awarded_at.localeCompare(b.awarded_at))
+          .map(withBadge),
+    },
+
+    audit: {
+      page: async ({ offset, limit, table, action, actorId }) =>
+        [...data.auditLog]
+          .reverse()
+          .filter((e) => (!table || e.table_name === table) && (!action || e.action === action))
+          .filter((e) => !actorId || e.actor_id === actorId)
+          .slice(offset, offset + limit)
+          .map((e) => ({ ...e, actor: accountName(e.actor_id) })),
+    },
+
+    claims: {
+      page: async ({ offset, limit, status }) =>
+        data.claims
+          .filter((c) => !status || c.status === status)
+          // Oldest first while triaging, newest first when browsing history
+          .sort((a, b) => (status === "pending" ? 1 : -1) * a.created_at.localeCompare(b.created_at))
+          .slice(offset, offset + limit)
+          .map((claim) => {
+            const member = data.members.find((m) => m.id === claim.member_id);
+            const board = member && data.boards.find((b) => b.id === member.leaderboard_id);
+            return {
+              ...claim,
+              member: member ? { name: member.name, score: member.score, leaderboard: board ? { name: board.name } : null } : null,
+              submitter: accountName(claim.submitted_by),
+              reviewer: accountName(claim.reviewed_by),
+            };
+          }),
+      submit: async ({ memberId, kind, value, note, evidence }) => {
+        findMember(memberId);
+
+        let evidencePath: string | null = null;
+        if (evidence) {
+          evidencePath = `${LOCAL_USER.id}/${Date.now()}-${evidence.name.replace(/[^\w.-]+/g, "_")}`;
+          evidenceFiles.set(evidencePath, URL.createObjectURL(evidence));
+        }
+
+        data.claims.push({
+          id: newId(),
+          member_id: memberId,
+          kind,
+          value,
+          note: note || null,
+          evidence_path: evidencePath,
+          status: "pending",
+          submitted_by: LOCAL_USER.id,
+          reviewed_by: null,
+          reviewed_at: null,
+          review_note: null,
+          created_at: now(),
+        });
+        persist();
+      },
+      // Same as review_score_claim in the database
+      review: async (claimId, approve, note) => {
+        const claim = data.claims.find((c) => c.id === claimId);
+        if (!claim) throw new Error(`Score claim ${claimId} does not exist`);
+        if (claim.status !== "pending") throw new Error(`This claim has already been ${claim.status}`);
+
+        if (approve) {
+          recordScore(claim.member_id, claim.kind, claim.value, claim.note?.trim() || "Approved score claim", true, claim.id);
+        }
+
+        data.claims = data.claims.map((c) =>
+          c.id === claimId
+            ? {
+                ...c,
+                status: approve ? "approved" : "rejected",
+                reviewed_by: LOCAL_USER.id,
+                reviewed_at: now(),
+                review_note: note?.trim() || null,
+              }
+            : c
+        );
+        persist();
+      },
+      evidenceUrl: async (path) => {
+        const url = evidenceFiles.get(path);
+        if (!url) throw new Error("Attachments are only kept until the page is closed when running locally");
+        return url;
+      },
+    },
+
+    invites: {
+      create: async (memberId) => {
+        findMember(memberId);
+        const invite: InviteRow = {
+          code: newId().replace(/-/g, "").slice(0, 10).toUpperCase(),
+          member_id: memberId,
+          created_by: LOCAL_USER.id,
+          created_at: now(),
+          expires_at: new Date(Date.now() + INVITE_DAYS_VALID * DAY_MS).toISOString(),
+          claimed_by: null,
+          claimed_at: null,
+        };
+        data.invites.push(invite);
+        persist();
+        return invite.code;
+      },
+      // Same checks as claim_member in the database
+      claim: async (code) => {
+        const invite = data.invites.find((i) => i.code === code.trim().toUpperCase());
+        if (!invite || invite.claimed_at || invite.expires_at < now()) {
+          throw new Error("This invite code is invalid or has expired");
+        }
+
+        const member = findMember(invite.member_id);
+        if (member.profile_id !== null && member.profile_id !== LOCAL_USER.id) {
+          throw new Error("This member is already linked to another account");
+        }
+        if (
+          data.members.some(
+            (m) => m.leaderboard_id === member.leaderboard_id && m.profile_id === LOCAL_USER.id && m.id !== member.id
+          )
+        ) {
+          throw new Error("Your account is already linked to another member on this board");
+        }
+
+        data.invites = data.invites.map((i) =>
+          i === invite ? { ...i, claimed_by: LOCAL_USER.id, claimed_at: now() } : i
+        );
+        writeMember(member.id, { profile_id: LOCAL_USER.id });
+
+        return { member_id: member.id, leaderboard_slug: findBoard(member.leaderboard_id).slug };
+      },
+    },
+  };
+};
@@ -0,0 +1,11 @@
+import type { MemberSort } from "../types";
+
+/**
+ * The column behind each member sort and its direction. Ties are broken by id
+ * in the same direction, which gives every row a unique position for paging.
+ */
+export const MEMBER_SORTS: Record<MemberSort, { column: "rank" | "name" | "updated_at"; ascending: boolean }> = {
+  rank: { column: "rank", ascending: true },
+  name: { column: "name", ascending: true },
+  updated: { column: "updated_at", ascending: false },
+};
@@ -0,0 +1,642 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ClaimedMember, ImportResult } from "../types";
+import { MEMBER_SORTS } from "./sorting";
+import type { DataBackend } from "./types";
+
+const AVATAR_BUCKET = "avatars";
+const AVATAR_TYPE = "image/webp";
+const EVIDENCE_BUCKET = "claim-evidence";
+const EVIDENCE_LINK_SECONDS = 60 * 10;
+
+const memberFolder = (memberId: string) => `members/${memberId}`;
+
+// Values inside an or() filter are quoted so names with commas or dots survive
+const quoteFilterValue = (value: number | string) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/** Delete a member's stored avatars, optionally keeping one file. */
+async function removeMemberAvatars(memberId: string, keepPath?: string) {
+  const folder = memberFolder(memberId);
+  const { data, error } = await supabase.storage.from(AVATAR_BUCKET).list(folder);
+  if (error) throw error;
+
+  const stale = (data || [])
+    .map((file) => `${folder}/${file.name}`)
+    .filter((path) => path !== keepPath);
+
+  if (stale.length > 0) {
+    const { error: removeError } = await supabase.storage.from(AVATAR_BUCKET).remove(stale);
+    if (removeError) throw removeError;
+  }
+}
+
+/**
+ * Store a processed avatar for a member and return its public URL. Each upload
+ * gets a new file name so browsers never show a cached old picture; the
+ * previous files are removed afterwards.
+ */
+async function uploadMemberAvatar(memberId: string, image: Blob): Promise<string> {
+  const path = `${memberFolder(memberId)}/${Date.now()}.webp`;
+
+  const { error } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .upload(path, image, { contentType: AVATAR_TYPE });
+  if (error) throw error;
+
+  await removeMemberAvatars(memberId, path);
+
+  return supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Store a claim attachment under the submitter's folder and return its path.
+ * The bucket is private, so the path is kept on the claim rather than a URL.
+ */
+async function uploadClaimEvidence(userId: string, file: File): Promise<string> {
+  const safeName = file.name.replace(/[^\w.-]+/g, "_");
+  const path = `${userId}/${Date.now()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+  if (error) throw error;
+
+  return path;
+}
+
+/** The hosted Supabase project; row level security decides what each call may do. */
+export const createSupabaseBackend = (): DataBackend => ({
+  auth: {
+    getUser: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user;
+    },
+    onUserChange: (listener) => {
+      const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+        if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+          listener(session?.user ?? null);
+        }
+      });
+      return () => subscription.unsubscribe();
+    },
+    signIn: async (email, password) => {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    },
+    signUp: async (email, password, fullName) => {
+      const { error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: {
+          data: {
+            full_name: fullName,
+          },
+        },
+      });
+      if (error) throw error;
+    },
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+  },
+
+  roles: {
+    getMyPermissions: async () => {
+      const { data, error } = await supabase.rpc('get_my_permissions');
+      if (error) throw error;
+      return data || [];
+    },
+    hasRole: async (userId, role) => {
+      const { data, error } = await supabase.rpc('has_role', { _user_id: userId, _role: role });
+      if (error) throw error;
+      return !!data;
+    },
+    grant: async (userId, role) => {
+      const { error } = await supabase
+        .from('user_roles')
+        .insert([{ user_id: userId, role }]);
+
+      if (error) throw error;
+    },
+    revoke: async (userId, role) => {
+      const { error } = await supabase
+        .from('user_roles')
+        .delete()
+        .eq('user_id', userId)
+        .eq('role', role);
+
+      if (error) throw error;
+    },
+  },
+
+  users: {
+    list: async () => {
+      const [profilesResult, rolesResult] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, email, full_name, created_at')
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('user_roles')
+          .select('user_id, role'),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (rolesResult.error) throw rolesResult.error;
+
+      const roles = rolesResult.data || [];
+      return (profilesResult.data || []).map((profile) => ({
+        ...profile,
+        roles: roles.filter((r) => r.user_id === profile.id).map((r) => r.role),
+      }));
+    },
+  },
+
+  boards: {
+    list: async () => {
+      const { data, error } = await supabase
+        .from('leaderboards')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    save: async (values, id) => {
+      const { data, error } = id
+        ? await supabase.from('leaderboards').update(values).eq('id', id).select().single()
+        : await supabase.from('leaderboards').insert([values]).select().single();
+
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  members: {
+    list: async (boardId) => {
+      // Ranks are maintained by the database whenever scores change
+      const { data, error } = await supabase
+        .from('leaderboard_members')
+        .select('*')
+        .eq('leaderboard_id', boardId)
+        .is('deleted_at', null)
+        .order('rank', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    page: async (boardId, { limit, cursor, backwards, maxRank, search, minScore, maxScore, sort = "rank" }) => {
+      const { column, ascending } = MEMBER_SORTS[sort];
+      const inOrder = ascending !== !!backwards;
+      const op = inOrder ? 'gt' : 'lt';
+
+      // Fuzzy matching needs pg_trgm, which only the search function can use.
+      // Members in the trash have no rank, so they are left out either way.
+      let query = (search?.trim()
+        ? supabase.rpc('search_leaderboard_members', { _leaderboard_id: boardId, _query: search.trim() })
+        : supabase.from('leaderboard_members').select('*').eq('leaderboard_id', boardId)
+      ).not('rank', 'is', null);
+
+      if (minScore !== undefined) query = query.gte('score', minScore);
+      if (maxScore !== undefined) query = query.lte('score', maxScore);
+      if (maxRank !== undefined) query = query.lte('rank', maxRank);
+
+      if (cursor?.id) {
+        const value = quoteFilterValue(cursor.value);
+        query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+      } else if (cursor) {
+        query = query.filter(column, op, cursor.value);
+      }
+
+      const { data, error } = await query
+        .order(column, { ascending: inOrder })
+        .order('id', { ascending: inOrder })
+        .limit(limit);
+
+      if (error) throw error;
+      return backwards ? (data || []).reverse() : data || [];
+    },
+    get: async (memberId) => {
+      const { data, error } = await supabase
+        .from('leaderboard_members')
+        .select('*')
+        .eq('id', memberId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    findByProfile: async (boardId, profileId) => {
+      const { data, error } = await supabase
+        .from('leaderboard_members')
+        .select('*')
+        .eq('leaderboard_id', boardId)
+        .eq('profile_id', profileId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    listByProfile: async (profileId) => {
+      const { data, error } = await supabase
+        .from('leaderboard_members')
+        .select('*')
+        .eq('profile_id', profileId)
+        .is('deleted_at', null)
+        .order('rank', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    add: async (boardId, values) => {
+      const { data, error } = await supabase
+        .from('leaderboard_members')
+        .insert([{ leaderboard_id: boardId, ...values }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    update: async (memberId, updates) => {
+      const { error } = await supabase
+        .from('leaderboard_members')
+        .update(updates)
+        .eq('id', memberId);
+
+      if (error) throw error;
+    },
+    remove: async (memberId) => {
+      const { error } = await supabase.rpc('bulk_delete_members', { _member_ids: [memberId] });
+      if (error) throw error;
+    },
+    removeMany: async (memberIds) => {
+      const { data, error } = await supabase.rpc('bulk_delete_members', { _member_ids: memberIds });
+      if (error) throw error;
+      return data;
+    },
+    listDeleted: async (boardId) => {
+      const { data, error } = await supabase
+        .from('leaderboard_members')
+        .select('*')
+        .eq('leaderboard_id', boardId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    restore: async (memberIds) => {
+      const { data, error } = await supabase.rpc('restore_members', { _member_ids: memberIds });
+      if (error) throw error;
+      return data;
+    },
+    purge: async (memberIds) => {
+      const { data, error } = await supabase.rpc('purge_members', { _member_ids: memberIds });
+      if (error) throw error;
+      return data;
+    },
+    move: async (memberIds, boardId) => {
+      const { data, error } = await supabase.rpc('bulk_move_members', {
+        _member_ids: memberIds,
+        _leaderboard_id: boardId
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    import: async (boardId, rows) => {
+      const { data, error } = await supabase.rpc('import_members', {
+        _leaderboard_id: boardId,
+        _rows: rows,
+      });
+
+      if (error) throw error;
+      return data as unknown as ImportResult;
+    },
+    uploadAvatar: uploadMemberAvatar,
+    removeAvatars: (memberId) => removeMemberAvatars(memberId),
+    subscribe: (boardId, listener) => {
+      const channel = supabase
+        .channel(`leaderboard-${boardId}`)
+        .on<Tables<'leaderboard_members'>>(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'leaderboard_members',
+            filter: `leaderboard_id=eq.${boardId}`,
+          },
+          (payload) => listener({ type: "upsert", member: payload.new })
+        )
+        // Unfiltered so members moved to another board leave this one; the old row
+        // is complete because the table has REPLICA IDENTITY FULL
+        .on<Tables<'leaderboard_members'>>(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'leaderboard_members' },
+          (payload) => {
+            if (payload.new.leaderboard_id === boardId) {
+              if (payload.new.deleted_at) {
+                // Moved to the trash
+                listener({ type: "delete", id: payload.new.id });
+              } else {
+                listener({ type: "upsert", member: payload.new });
+              }
+            } else if (payload.old.leaderboard_id === boardId) {
+              listener({ type: "delete", id: payload.new.id });
+            }
+          }
+        )
+        // Realtime cannot filter deletes, so subscribers drop any id they are showing
+        .on<Tables<'leaderboard_members'>>(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'leaderboard_members' },
+          (payload) => {
+            if (payload.old.id) listener({ type: "delete", id: payload.old.id });
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  },
+
+  scores: {
+    record: async ({ memberId, kind, value, reason }) => {
+      const { error } = await supabase
+        .from('score_events')
+        .insert([{
+          member_id: memberId,
+          kind,
+          value,
+          reason: reason || null
+        }]);
+
+      if (error) throw error;
+    },
+    recordMany: async ({ memberIds, kind, value, reason }) => {
+      const { data, error } = await supabase.rpc('bulk_adjust_scores', {
+        _member_ids: memberIds,
+        _kind: kind,
+        _value: value,
+        _reason: reason || undefined
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    history: async (memberId) => {
+      const { data, error } = await supabase
+        .from('score_events')
+        .select('*, actor:profiles(full_name)')
+        .eq('member_id', memberId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  },
+
+  seasons: {
+    list: async (boardId) => {
+      const { data, error } = await supabase
+        .from('seasons')
+        .select('*')
+        .eq('leaderboard_id', boardId)
+        .order('number', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    standings: async (seasonId) => {
+      const { data, error } = await supabase
+        .from('season_standings')
+        .select('*')
+        .eq('season_id', seasonId)
+        .order('rank', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    standingsForMembers: async (memberIds) => {
+      const { data, error } = await supabase
+        .from('season_standings')
+        .select('*')
+        .in('member_id', memberIds);
+
+      if (error) throw error;
+      return data || [];
+    },
+    close: async (boardId, carryOverPercent, nextName) => {
+      const { error } = await supabase.rpc('close_season', {
+        _leaderboard_id: boardId,
+        _carry_over_percent: carryOverPercent,
+        _next_name: nextName || null
+      });
+
+      if (error) throw error;
+    },
+  },
+
+  movement: {
+    checkpointRanks: async (boardId, since) => {
+      const { data, error } = await supabase.rpc('checkpoint_ranks', { _leaderboard_id: boardId, _since: since });
+      if (error) throw error;
+      return data || [];
+    },
+    climbers: async (boardId, since, limit) => {
+      const { data, error } = await supabase.rpc('rank_climbers', {
+        _leaderboard_id: boardId,
+        _since: since,
+        _limit: limit
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  },
+
+  teams: {
+    list: async (boardId) => {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('*')
+        .eq('leaderboard_id', boardId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    standings: async (boardId) => {
+      const { data, error } = await supabase.rpc('team_standings', { _leaderboard_id: boardId });
+      if (error) throw error;
+      return data || [];
+    },
+    save: async (boardId, name, id) => {
+      const { data, error } = id
+        ? await supabase.from('teams').update({ name }).eq('id', id).select().single()
+        : await supabase.from('teams').insert([{ leaderboard_id: boardId, name }]).select().single();
+
+      if (error) throw error;
+      return data;
+    },
+    remove: async (teamId) => {
+      const { error } = await supabase
+        .from('teams')
+        .delete()
+        .eq('id', teamId);
+
+      if (error) throw error;
+    },
+  },
+
+  badges: {
+    list: async (boardId) => {
+      const { data, error } = await supabase
+        .from('badges')
+        .select('*')
+        .or(`leaderboard_id.is.null,leaderboard_id.eq.${boardId}`)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    save: async (values, id) => {
+      const { data, error } = id
+        ? await supabase.from('badges').update(values).eq('id', id).select().single()
+        : await supabase.from('badges').insert([values]).select().single();
+
+      if (error) throw error;
+      return data;
+    },
+    remove: async (badgeId) => {
+      const { error } = await supabase
+        .from('badges')
+        .delete()
+        .eq('id', badgeId);
+
+      if (error) throw error;
+    },
+    awarded: async (boardId) => {
+      // The inner join only narrows the awards to the board's members
+      const { data, error } = await supabase
+        .from('member_badges')
+        .select('*, badge:badges(*), member:leaderboard_members!inner(leaderboard_id)')
+        .eq('member.leaderboard_id', boardId)
+        .order('awarded_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(({ member: _member, ...awarded }) => awarded);
+    },
+    forMembers: async (memberIds) => {
+      const { data, error } = await supabase
+        .from('member_badges')
+        .select('*, badge:badges(*)')
+        .in('member_id', memberIds)
+        .order('awarded_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  },
+
+  audit: {
+    page: async ({ offset, limit, table, action, actorId }) => {
+      let query = supabase
+        .from('audit_log')
+        .select('*, actor:profiles(full_name, email)')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (table) query = query.eq('table_name', table);
+      if (action) query = query.eq('action', action);
+      if (actorId) query = query.eq('actor_id', actorId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+  },
+
+  claims: {
+    page: async ({ offset, limit, status }) => {
+      let query = supabase
+        .from('score_claims')
+        .select(`
+          *,
+          member:leaderboard_members(name, score, leaderboard:leaderboards(name)),
+          submitter:profiles!score_claims_submitted_by_fkey(full_name, email),
+          reviewer:profiles!score_claims_reviewed_by_fkey(full_name, email)
+        `)
+        // Oldest first while triaging, newest first when browsing history
+        .order('created_at', { ascending: status === 'pending' })
+        .range(offset, offset + limit - 1);
+
+      if (status) query = query.eq('status', status);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+    submit: async ({ memberId, kind, value, note, evidence }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("You must be signed in to submit a score");
+
+      const evidencePath = evidence ? await uploadClaimEvidence(user.id, evidence) : null;
+
+      const { error } = await supabase
+        .from('score_claims')
+        .insert({
+          member_id: memberId,
+          kind,
+          value,
+          note: note || null,
+          evidence_path: evidencePath,
+        });
+
+      if (error) throw error;
+    },
+    review: async (claimId, approve, note) => {
+      const { error } = await supabase.rpc('review_score_claim', {
+        _claim_id: claimId,
+        _approve: approve,
+        _note: note || undefined,
+      });
+
+      if (error) throw error;
+    },
+    evidenceUrl: async (path) => {
+      const { data, error } = await supabase.storage
+        .from(EVIDENCE_BUCKET)
+        .createSignedUrl(path, EVIDENCE_LINK_SECONDS);
+
+      if (error) throw error;
+      return data.signedUrl;
+    },
+  },
+
+  invites: {
+    create: async (memberId) => {
+      const { data, error } = await supabase
+        .from('member_invites')
+        .insert([{ member_id: memberId }])
+        .select('code')
+        .single();
+
+      if (error) throw error;
+      return data.code;
+    },
+    claim: async (code) => {
+      const { data, error } = await supabase.rpc('claim_member', { _code: code });
+      if (error) throw error;
+      return data as unknown as ClaimedMember;
+    },
+  },
+});
@@ -0,0 +1,235 @@
+import type { AppRole, Permission } from "@/lib/permissions";
+import type {
+  AppUser,
+  AuditEntry,
+  AwardedBadge,
+  Badge,
+  BadgeValues,
+  Board,
+  BoardValues,
+  CheckpointRank,
+  ClaimedMember,
+  ClaimStatus,
+  ImportedMember,
+  ImportResult,
+  Member,
+  MemberFilters,
+  MemberInsert,
+  MemberUpdate,
+  RankClimber,
+  ScoreClaim,
+  ScoreEvent,
+  ScoreEventKind,
+  Season,
+  SeasonStanding,
+  Team,
+  TeamStandingRow,
+  UserAccount,
+} from "../types";
+
+export type Unsubscribe = () => void;
+
+/** A change to one member row, as pushed to subscribers of a board. */
+export type MemberChange =
+  | { type: "upsert"; member: Member }
+  | { type: "delete"; id: string };
+
+/**
+ * A position in a board's members, by the sort column's value and then id.
+ * Without an id it sits after every member with that value, or before all of
+ * them when paging backwards.
+ */
+export interface MemberCursor {
+  value: number | string;
+  id?: string;
+}
+
+/**
+ * Which page of a board's members to read. Pages are keyed on (sort column,
+ * id) rather than offsets, so they stay cheap deep into a large board.
+ */
+export interface MemberPageOptions extends MemberFilters {
+  limit: number;
+  /** Continue after this position, or before it when `backwards` is set; omit to start at the top */
+  cursor?: MemberCursor;
+  backwards?: boolean;
+  /** Only members ranked this high or higher, ties included */
+  maxRank?: number;
+}
+
+/** Which part of the audit log to read, newest first. */
+export interface AuditPageOptions {
+  offset: number;
+  limit: number;
+  table?: string;
+  action?: string;
+  actorId?: string;
+}
+
+/** Which score claims to read: oldest first while pending, newest first otherwise. */
+export interface ClaimPageOptions {
+  offset: number;
+  limit: number;
+  /** Omit for claims of every status */
+  status?: ClaimStatus;
+}
+
+export interface AuthRepository {
+  getUser(): Promise<AppUser | null>;
+  onUserChange(listener: (user: AppUser | null) => void): Unsubscribe;
+  signIn(email: string, password: string): Promise<void>;
+  /** Create an account; it may need confirming by email before it can sign in */
+  signUp(email: string, password: string, fullName: string): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+export interface RoleRepository {
+  /** Permissions of the signed-in user */
+  getMyPermissions(): Promise<Permission[]>;
+  hasRole(userId: string, role: AppRole): Promise<boolean>;
+  grant(userId: string, role: AppRole): Promise<void>;
+  /** Take a role away; the last admin cannot lose theirs */
+  revoke(userId: string, role: AppRole): Promise<void>;
+}
+
+export interface UserRepository {
+  /** Every account, oldest first */
+  list(): Promise<UserAccount[]>;
+}
+
+export interface BoardRepository {
+  list(): Promise<Board[]>;
+  /** Create a board, or update the one with the given id */
+  save(values: BoardValues, id?: string): Promise<Board>;
+}
+
+export interface MemberRepository {
+  list(boardId: string): Promise<Member[]>;
+  /** Ranked members in the requested order, which is kept even when paging backwards */
+  page(boardId: string, options: MemberPageOptions): Promise<Member[]>;
+  get(memberId: string): Promise<Member | null>;
+  /** The member a user's account is linked to on a board */
+  findByProfile(boardId: string, profileId: string): Promise<Member | null>;
+  /** Every board's member linked to a user's account, best rank first */
+  listByProfile(profileId: string): Promise<Member[]>;
+  add(boardId: string, values: MemberInsert): Promise<Member>;
+  /** Change member columns. Scores should go through {@link ScoreRepository.record}. */
+  update(memberId: string, updates: MemberUpdate): Promise<void>;
+  /** Move a member to the trash, out of the rankings until it is restored */
+  remove(memberId: string): Promise<void>;
+  /** Move several members to the trash in one transaction and return how many were removed */
+  removeMany(memberIds: string[]): Promise<number>;
+  /** Members of a board that are in the trash, most recently deleted first */
+  listDeleted(boardId: string): Promise<Member[]>;
+  /** Take members out of the trash and back into the rankings */
+  restore(memberIds: string[]): Promise<number>;
+  /** Permanently delete members that are in the trash, with their score history */
+  purge(memberIds: string[]): Promise<number>;
+  /** Reassign members to another board, keeping their scores and history */
+  move(memberIds: string[], boardId: string): Promise<number>;
+  /** Add or update members from a file in one transaction; matched members in the trash are restored */
+  import(boardId: string, rows: ImportedMember[]): Promise<ImportResult>;
+  /** Store a processed avatar and return the URL to save on the member */
+  uploadAvatar(memberId: string, image: Blob): Promise<string>;
+  removeAvatars(memberId: string): Promise<void>;
+  subscribe(boardId: string, listener: (change: MemberChange) => void): Unsubscribe;
+}
+
+export interface ScoreRepository {
+  /** Append to a member's score ledger, which updates the member's score and ranks */
+  record(event: { memberId: string; kind: ScoreEventKind; value: number; reason?: string | null }): Promise<void>;
+  /** Record the same change for several members in one transaction */
+  recordMany(event: { memberIds: string[]; kind: ScoreEventKind; value: number; reason?: string | null }): Promise<number>;
+  history(memberId: string): Promise<ScoreEvent[]>;
+}
+
+export interface SeasonRepository {
+  list(boardId: string): Promise<Season[]>;
+  standings(seasonId: string): Promise<SeasonStanding[]>;
+  /** Where the given members finished in every closed season */
+  standingsForMembers(memberIds: string[]): Promise<SeasonStanding[]>;
+  /** Archive the open season and start the next, resetting scores to a share of their final value */
+  close(boardId: string, carryOverPercent: number, nextName?: string | null): Promise<void>;
+}
+
+/** Ranks are recorded once a day, before the day's first change, and kept for 30 days. */
+export interface MovementRepository {
+  /** Each member's rank on the first recorded day on or after `since` (YYYY-MM-DD) */
+  checkpointRanks(boardId: string, since: string): Promise<CheckpointRank[]>;
+  /** Members who gained the most places since a day, most places first */
+  climbers(boardId: string, since: string, limit: number): Promise<RankClimber[]>;
+}
+
+export interface TeamRepository {
+  /** A board's teams in name order */
+  list(boardId: string): Promise<Team[]>;
+  /** Teams that have members, best first, scored the way the board is set up to */
+  standings(boardId: string): Promise<TeamStandingRow[]>;
+  /** Create a team, or rename the one with the given id */
+  save(boardId: string, name: string, id?: string): Promise<Team>;
+  /** Delete a team; its members stay on the board without one */
+  remove(teamId: string): Promise<void>;
+}
+
+export interface BadgeRepository {
+  /** Badges that can be earned on a board: its own and those for every board */
+  list(boardId: string): Promise<Badge[]>;
+  /** Create a badge, or update the one with the given id; members who already qualify get it straight away */
+  save(values: BadgeValues, id?: string): Promise<Badge>;
+  /** Delete a badge, taking it away from everyone who earned it */
+  remove(badgeId: string): Promise<void>;
+  /** Badges earned by a board's members, in the order they were awarded */
+  awarded(boardId: string): Promise<AwardedBadge[]>;
+  /** Badges earned by the given members, e.g. one person's rows on every board */
+  forMembers(memberIds: string[]): Promise<AwardedBadge[]>;
+}
+
+/** Changes to members and roles, recorded as they happen. */
+export interface AuditRepository {
+  page(options: AuditPageOptions): Promise<AuditEntry[]>;
+}
+
+/** Score changes players report, which only count once a reviewer approves them. */
+export interface ClaimRepository {
+  page(options: ClaimPageOptions): Promise<ScoreClaim[]>;
+  /** Submit a claim as the signed-in user, storing the evidence file with it */
+  submit(claim: {
+    memberId: string;
+    kind: ScoreEventKind;
+    value: number;
+    note?: string | null;
+    evidence?: File | null;
+  }): Promise<void>;
+  /** Approve or reject a pending claim; approving records the score change */
+  review(claimId: string, approve: boolean, note?: string | null): Promise<void>;
+  /** A link to a claim's evidence file that works for a while */
+  evidenceUrl(path: string): Promise<string>;
+}
+
+/** One-time codes that let a person link a member row to their account. */
+export interface InviteRepository {
+  /** Create an invite for a member and return its code */
+  create(memberId: string): Promise<string>;
+  /** Link the invite's member to the signed-in user */
+  claim(code: string): Promise<ClaimedMember>;
+}
+
+/**
+ * Everything the data hooks need from storage. The app talks to Supabase by
+ * default; a local implementation lets it run without the hosted project.
+ */
+export interface DataBackend {
+  auth: AuthRepository;
+  roles: RoleRepository;
+  users: UserRepository;
+  boards: BoardRepository;
+  members: MemberRepository;
+  scores: ScoreRepository;
+  seasons: SeasonRepository;
+  movement: MovementRepository;
+  teams: TeamRepository;
+  badges: BadgeRepository;
+  audit: AuditRepository;
+  claims: ClaimRepository;
+  invites: InviteRepository;
+}
@@ -0,0 +1,63 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { AwardedBadge, Badge, BadgeValues } from "./types";
+
+/** Badges that can be earned on a board, including those for every board. */
+export function useBadges(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.badges(boardId ?? ""),
+    queryFn: (): Promise<Badge[]> => backend.badges.list(boardId),
+    enabled: !!boardId,
+  });
+}
+
+/** Badges earned on a board, grouped by the member who holds them. */
+export function useAwardedBadges(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.awardedBadges(boardId ?? ""),
+    queryFn: async (): Promise<Map<string, AwardedBadge[]>> => {
+      const awarded = await backend.badges.awarded(boardId);
+      const byMember = new Map<string, AwardedBadge[]>();
+      awarded.forEach((award) => byMember.set(award.member_id, [...(byMember.get(award.member_id) ?? []), award]));
+      return byMember;
+    },
+    enabled: !!boardId,
+  });
+}
+
+/** Badges earned by one person across the boards they are on. */
+export function useMemberBadges(memberIds: string[]) {
+  return useQuery({
+    queryKey: queryKeys.memberBadges(memberIds),
+    queryFn: (): Promise<AwardedBadge[]> => backend.badges.forMembers(memberIds),
+    enabled: memberIds.length > 0,
+  });
+}
+
+/** Create a badge, or change the one with the given id. */
+export function useSaveBadge(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id?: string; values: BadgeValues }) => backend.badges.save(values, id),
+    onSettled: () => {
+      // Saving awards the badge to members who already qualify
+      queryClient.invalidateQueries({ queryKey: queryKeys.badges(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allMemberBadges });
+    },
+  });
+}
+
+/** Delete a badge and take it away from everyone who earned it. */
+export function useDeleteBadge(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (badgeId: string) => backend.badges.remove(badgeId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.badges(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allMemberBadges });
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { Board, BoardValues } from "./types";
+
+/** Every board the user can see, oldest first; the oldest is the home page board. */
+export function useBoards() {
+  return useQuery({
+    queryKey: queryKeys.boards,
+    queryFn: (): Promise<Board[]> => backend.boards.list(),
+  });
+}
+
+/** Create a board, or update it when an id is given. Resolves to the saved row. */
+export function useSaveBoard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id?: string; values: BoardValues }): Promise<Board> =>
+      backend.boards.save(values, id),
+    onSuccess: (board) => {
+      queryClient.setQueryData<Board[]>(queryKeys.boards, (current) =>
+        current?.some((b) => b.id === board.id)
+          ? current.map((b) => (b.id === board.id ? board : b))
+          : [...(current || []), board]
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.boards, exact: true });
+      // Team scores depend on the board's team scoring settings
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamStandings(board.id) });
+    },
+  });
+}
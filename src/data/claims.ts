@@ -0,0 +1,48 @@
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { ClaimStatus, ScoreEventKind } from "./types";
+
+export const CLAIM_PAGE_SIZE = 50;
+
+/** Score claims with a status, or of every status, a page at a time. Pending claims come oldest first. */
+export function useScoreClaims(status?: ClaimStatus) {
+  return useInfiniteQuery({
+    queryKey: [...queryKeys.claims, status ?? "all"],
+    queryFn: ({ pageParam }) => backend.claims.page({ status, offset: pageParam, limit: CLAIM_PAGE_SIZE }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.length < CLAIM_PAGE_SIZE ? undefined : pages.length * CLAIM_PAGE_SIZE,
+  });
+}
+
+/** Report a score change for review, with an optional evidence file. */
+export function useSubmitClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (claim: {
+      memberId: string;
+      kind: ScoreEventKind;
+      value: number;
+      note?: string | null;
+      evidence?: File | null;
+    }) => backend.claims.submit(claim),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.claims }),
+  });
+}
+
+/** Approve or reject a pending claim. */
+export function useReviewClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ claimId, approve, note }: { claimId: string; approve: boolean; note?: string | null }) =>
+      backend.claims.review(claimId, approve, note),
+    onSettled: (_data, _error, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+      // Approved claims change scores, which every board view caches
+      if (approve) queryClient.invalidateQueries({ queryKey: queryKeys.boards });
+    },
+  });
+}
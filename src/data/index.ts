@@ -0,0 +1,16 @@
+export * from "./audit";
+export * from "./auth";
+export * from "./badges";
+export { backend, loadBackend, usesLocalData } from "./backend";
+export * from "./boards";
+export * from "./claims";
+export * from "./invites";
+export * from "./keys";
+export * from "./members";
+export * from "./movement";
+export * from "./profiles";
+export * from "./scores";
+export * from "./seasons";
+export * from "./teams";
+export * from "./users";
+export type * from "./types";
@@ -0,0 +1,22 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { ClaimedMember } from "./types";
+
+/** Create a one-time invite for a member; resolves to its code. */
+export function useCreateInvite() {
+  return useMutation({
+    mutationFn: (memberId: string): Promise<string> => backend.invites.create(memberId),
+  });
+}
+
+/** Redeem an invite code, linking its member to the signed-in user. */
+export function useClaimInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string): Promise<ClaimedMember> => backend.invites.claim(code),
+    // Which member is "you" is looked up per board
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.boards }),
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Query keys for every cached resource. Member and season data hang off their
+ * board's key, so invalidating a board refreshes everything shown for it.
+ */
+export const queryKeys = {
+  boards: ["boards"] as const,
+  members: (boardId: string) => ["boards", boardId, "members"] as const,
+  memberPages: (boardId: string) => ["boards", boardId, "members", "pages"] as const,
+  podium: (boardId: string) => ["boards", boardId, "members", "podium"] as const,
+  deletedMembers: (boardId: string) => ["boards", boardId, "members", "deleted"] as const,
+  linkedMember: (boardId: string, userId: string) => ["boards", boardId, "members", "linked", userId] as const,
+  member: (memberId: string) => ["members", memberId] as const,
+  scoreHistory: (memberId: string) => ["members", memberId, "scores"] as const,
+  profile: (memberId: string) => ["members", memberId, "profile"] as const,
+  checkpointRanks: (boardId: string, since: string) => ["boards", boardId, "members", "checkpoint", since] as const,
+  climbers: (boardId: string) => ["boards", boardId, "members", "climbers"] as const,
+  seasons: (boardId: string) => ["boards", boardId, "seasons"] as const,
+  teams: (boardId: string) => ["boards", boardId, "teams"] as const,
+  teamStandings: (boardId: string) => ["boards", boardId, "teams", "standings"] as const,
+  badges: (boardId: string) => ["boards", boardId, "badges"] as const,
+  awardedBadges: (boardId: string) => ["boards", boardId, "badges", "awarded"] as const,
+  allMemberBadges: ["members", "badges"] as const,
+  memberBadges: (memberIds: string[]) => ["members", "badges", memberIds] as const,
+  standings: (seasonId: string) => ["seasons", seasonId, "standings"] as const,
+  currentUser: ["auth", "user"] as const,
+  permissions: (userId: string) => ["auth", userId, "permissions"] as const,
+  isAdmin: (userId: string) => ["auth", userId, "isAdmin"] as const,
+  users: ["users"] as const,
+  auditLog: ["auditLog"] as const,
+  claims: ["claims"] as const,
+};
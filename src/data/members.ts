@@ -0,0 +1,395 @@
+import { useEffect } from "react";
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { backend } from "./backend";
+import { MEMBER_SORTS } from "./backend/sorting";
+import type { MemberPageOptions } from "./backend/types";
+import { queryKeys } from "./keys";
+import type {
+  ImportedMember,
+  ImportResult,
+  Member,
+  MemberFilters,
+  MemberUpdate,
+  RankedMember,
+  ScoreEventKind,
+} from "./types";
+
+export const MEMBER_PAGE_SIZE = 50;
+/** Places on the podium; members tied for one of them all stand on it */
+export const PODIUM_SIZE = 3;
+// Wait for a burst of rank changes to settle before refetching pages
+const PAGE_REFRESH_DELAY_MS = 300;
+
+type MemberPageParam = Pick<MemberPageOptions, "cursor" | "backwards">;
+
+// Ranks come from the database; members not yet ranked sort last
+export const sortByRank = <T extends RankedMember>(list: T[]): T[] =>
+  [...list].sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || a.name.localeCompare(b.name));
+
+/**
+ * Apply a change to a board's cached members straight away and return a
+ * function that puts the previous list back if the write fails.
+ */
+const patchMembers = async (
+  queryClient: QueryClient,
+  boardId: string,
+  update: (members: Member[]) => Member[]
+) => {
+  const queryKey = queryKeys.members(boardId);
+  await queryClient.cancelQueries({ queryKey });
+
+  const previous = queryClient.getQueryData<Member[]>(queryKey);
+  if (previous) queryClient.setQueryData(queryKey, sortByRank(update(previous)));
+
+  return () => queryClient.setQueryData(queryKey, previous);
+};
+
+/** Live members of a board in rank order. Keeps showing the last board while another loads. */
+export function useLeaderboard(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.members(boardId ?? ""),
+    queryFn: async (): Promise<Member[]> => sortByRank(await backend.members.list(boardId)),
+    enabled: !!boardId,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Keep a board's cached members up to date with changes made elsewhere. The
+ * full list is patched in place; pages and the podium are keyed on ranks that
+ * shift with every change, so loaded rows get the new values straight away and
+ * the pages and team standings are refetched once the changes stop.
+ */
+export function useLeaderboardUpdates(boardId?: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!boardId) return;
+
+    let refresh: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = backend.members.subscribe(boardId, (change) => {
+      queryClient.setQueryData<Member[]>(queryKeys.members(boardId), (current) => {
+        if (!current) return current;
+        const others = current.filter((m) => m.id !== (change.type === "delete" ? change.id : change.member.id));
+        return sortByRank(change.type === "delete" ? others : [...others, change.member]);
+      });
+
+      if (change.type === "upsert") {
+        queryClient.setQueriesData<InfiniteData<Member[]>>(
+          { queryKey: queryKeys.memberPages(boardId) },
+          (current) =>
+            current && {
+              ...current,
+              pages: current.pages.map((page) =>
+                page.map((m) => (m.id === change.member.id ? change.member : m))
+              ),
+            }
+        );
+      }
+
+      clearTimeout(refresh);
+      refresh = setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.memberPages(boardId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.podium(boardId) });
+        // Team scores are made from member scores
+        queryClient.invalidateQueries({ queryKey: queryKeys.teamStandings(boardId) });
+        // Score and rank changes can earn badges and change who climbed the most
+        queryClient.invalidateQueries({ queryKey: queryKeys.awardedBadges(boardId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.climbers(boardId) });
+      }, PAGE_REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      clearTimeout(refresh);
+      unsubscribe();
+    };
+  }, [boardId, queryClient]);
+}
+
+/**
+ * A board's members a page at a time, for boards too large to load whole.
+ * In rank order loading starts at `fromRank` and can continue in either
+ * direction, so the list can open anywhere on the board.
+ */
+export function useLeaderboardPages(boardId?: string, fromRank = 1, filters: MemberFilters = {}) {
+  const { column } = MEMBER_SORTS[filters.sort ?? "rank"];
+  const startsMidway = (filters.sort ?? "rank") === "rank" && fromRank > 1;
+  const cursorAt = (member: Member) => ({ value: member[column] as number | string, id: member.id });
+
+  return useInfiniteQuery({
+    queryKey: [...queryKeys.memberPages(boardId ?? ""), fromRank, filters],
+    queryFn: ({ pageParam }) =>
+      backend.members.page(boardId, { ...filters, ...pageParam, limit: MEMBER_PAGE_SIZE }),
+    initialPageParam: (startsMidway ? { cursor: { value: fromRank - 1 } } : {}) as MemberPageParam,
+    getNextPageParam: (lastPage): MemberPageParam | undefined => {
+      const last = lastPage[lastPage.length - 1];
+      if (!last || lastPage.length < MEMBER_PAGE_SIZE) return undefined;
+      return { cursor: cursorAt(last) };
+    },
+    getPreviousPageParam: (firstPage, _pages, firstPageParam): MemberPageParam | undefined => {
+      // The first page loaded starts at fromRank, so everything ranked higher comes before it
+      if (!firstPageParam.backwards) return startsMidway ? { cursor: { value: fromRank }, backwards: true } : undefined;
+
+      const first = firstPage[0];
+      if (!first || firstPage.length < MEMBER_PAGE_SIZE) return undefined;
+      return { cursor: cursorAt(first), backwards: true };
+    },
+    enabled: !!boardId,
+    // Keep the old rows on screen while jumping or filtering, but not across boards
+    placeholderData: (previous, previousQuery) => (previousQuery?.queryKey[1] === boardId ? previous : undefined),
+  });
+}
+
+/**
+ * The top of a board, which stays on screen however far the rest is scrolled.
+ * A board of tied newcomers stops at a page; the rest of them list below.
+ */
+export function usePodium(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.podium(boardId ?? ""),
+    queryFn: (): Promise<Member[]> =>
+      backend.members.page(boardId, { maxRank: PODIUM_SIZE, limit: MEMBER_PAGE_SIZE }),
+    enabled: !!boardId,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** The member the signed-in user is linked to on a board, if any. */
+export function useLinkedMember(boardId?: string, userId?: string | null) {
+  return useQuery({
+    queryKey: queryKeys.linkedMember(boardId ?? "", userId ?? ""),
+    queryFn: (): Promise<Member | null> => backend.members.findByProfile(boardId, userId),
+    enabled: !!boardId && !!userId,
+  });
+}
+
+export function useMember(memberId?: string) {
+  return useQuery({
+    queryKey: queryKeys.member(memberId ?? ""),
+    queryFn: (): Promise<Member | null> => backend.members.get(memberId),
+    enabled: !!memberId,
+  });
+}
+
+export function useAddMember(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, score, avatar }: { name: string; score: number; avatar?: Blob | null }) => {
+      const member = await backend.members.add(boardId, { name, score });
+
+      // The storage path is keyed by member id, so the photo goes up after the insert
+      if (avatar) {
+        const avatarUrl = await backend.members.uploadAvatar(member.id, avatar);
+        await backend.members.update(member.id, { avatar_url: avatarUrl });
+      }
+
+      return member.id;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) }),
+  });
+}
+
+/**
+ * Update member columns other than the score, which goes through
+ * {@link useUpdateScore}. A new avatar is uploaded first; null removes it.
+ */
+export function useUpdateMember(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates, avatar }: { id: string; updates: MemberUpdate; avatar?: Blob | null }) => {
+      const changes = { ...updates };
+      if (avatar) {
+        changes.avatar_url = await backend.members.uploadAvatar(id, avatar);
+      } else if (avatar === null) {
+        changes.avatar_url = null;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await backend.members.update(id, changes);
+      }
+
+      if (avatar === null) {
+        await backend.members.removeAvatars(id);
+      }
+    },
+    onMutate: ({ id, updates }) =>
+      patchMembers(queryClient, boardId, (members) =>
+        members.map((m) => (m.id === id ? { ...m, ...updates } : m))
+      ),
+    onError: (_error, _variables, rollback) => rollback?.(),
+    onSettled: (_data, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.member(id) });
+    },
+  });
+}
+
+/**
+ * Set a member's score by recording it in the score ledger, which updates the
+ * member row and ranks. The new score shows immediately; ranks follow once the
+ * backend has recomputed them.
+ */
+export function useUpdateScore(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ memberId, score, reason }: { memberId: string; score: number; reason?: string | null }) =>
+      backend.scores.record({ memberId, kind: 'absolute', value: score, reason }),
+    onMutate: ({ memberId, score }) =>
+      patchMembers(queryClient, boardId, (members) =>
+        members.map((m) => (m.id === memberId ? { ...m, score } : m))
+      ),
+    onError: (_error, _variables, rollback) => rollback?.(),
+    onSettled: (_data, _error, { memberId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.member(memberId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.scoreHistory(memberId) });
+    },
+  });
+}
+
+/** Link a member to a user's account, or unlink it with null. */
+export function useLinkMember(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ memberId, profileId }: { memberId: string; profileId: string | null }) =>
+      backend.members.update(memberId, { profile_id: profileId }),
+    onSettled: (_data, _error, { memberId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.member(memberId) });
+    },
+  });
+}
+
+/** Members of a board that are in the trash, most recently deleted first. */
+export function useDeletedMembers(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.deletedMembers(boardId ?? ""),
+    queryFn: () => backend.members.listDeleted(boardId),
+    enabled: !!boardId,
+  });
+}
+
+/** Move a member to the trash; {@link useRestoreMembers} brings it back. */
+export function useDeleteMember(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => backend.members.remove(id),
+    onMutate: (id) => patchMembers(queryClient, boardId, (members) => members.filter((m) => m.id !== id)),
+    onError: (_error, _id, rollback) => rollback?.(),
+    onSettled: (_data, _error, id) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      queryClient.removeQueries({ queryKey: queryKeys.member(id) });
+    },
+  });
+}
+
+/** Move several members of a board to the trash at once; all of them go or none do. */
+export function useDeleteMembers(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: string[]) => backend.members.removeMany(ids),
+    onMutate: (ids) => patchMembers(queryClient, boardId, (members) => members.filter((m) => !ids.includes(m.id))),
+    onError: (_error, _ids, rollback) => rollback?.(),
+    onSettled: (_data, _error, ids) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      ids.forEach((id) => queryClient.removeQueries({ queryKey: queryKeys.member(id) }));
+    },
+  });
+}
+
+/** Take members out of the trash and back into the board's rankings. */
+export function useRestoreMembers(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: string[]) => backend.members.restore(ids),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+    },
+  });
+}
+
+/** Permanently delete members in the trash, along with their avatar files. */
+export function usePurgeMembers(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      const purged = await backend.members.purge(ids);
+
+      for (const id of ids) {
+        try {
+          await backend.members.removeAvatars(id);
+        } catch (cleanupError) {
+          console.error('Error removing avatar files:', cleanupError);
+        }
+      }
+
+      return purged;
+    },
+    onSettled: (_data, _error, ids) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.deletedMembers(boardId) });
+      ids.forEach((id) => queryClient.removeQueries({ queryKey: queryKeys.scoreHistory(id) }));
+    },
+  });
+}
+
+/** Add points to, or set the score of, several members through the score ledger. */
+export function useAdjustScores(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (change: { memberIds: string[]; kind: ScoreEventKind; value: number; reason?: string | null }) =>
+      backend.scores.recordMany(change),
+    onSettled: (_data, _error, { memberIds }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      memberIds.forEach((id) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.member(id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.scoreHistory(id) });
+      });
+    },
+  });
+}
+
+/** Reassign several members from this board to another one. */
+export function useMoveMembers(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ memberIds, targetBoardId }: { memberIds: string[]; targetBoardId: string }) =>
+      backend.members.move(memberIds, targetBoardId),
+    onMutate: ({ memberIds }) =>
+      patchMembers(queryClient, boardId, (members) => members.filter((m) => !memberIds.includes(m.id))),
+    onError: (_error, _variables, rollback) => rollback?.(),
+    onSettled: (_data, _error, { memberIds, targetBoardId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(targetBoardId) });
+      memberIds.forEach((id) => queryClient.invalidateQueries({ queryKey: queryKeys.member(id) }));
+    },
+  });
+}
+
+/** Add or update a board's members from a file; members in the trash that match come back. */
+export function useImportMembers(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rows: ImportedMember[]): Promise<ImportResult> => backend.members.import(boardId, rows),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) }),
+  });
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { RankClimber } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLIMBER_DAYS = 7;
+const CLIMBER_COUNT = 5;
+
+/** The snapshot day a number of days back, as a UTC date like the database's current_date. */
+export const checkpointDay = (daysAgo = 0) => new Date(Date.now() - daysAgo * DAY_MS).toISOString().slice(0, 10);
+
+/** Members' ranks at the first daily snapshot on or after a day, by member id. */
+export function useCheckpointRanks(boardId: string | undefined, since: string) {
+  return useQuery({
+    queryKey: queryKeys.checkpointRanks(boardId ?? "", since),
+    queryFn: async (): Promise<Map<string, number>> => {
+      const ranks = await backend.movement.checkpointRanks(boardId, since);
+      return new Map(ranks.map((r) => [r.member_id, r.rank]));
+    },
+    enabled: !!boardId,
+  });
+}
+
+/** The members who gained the most places over the last week. */
+export function useRankClimbers(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.climbers(boardId ?? ""),
+    queryFn: (): Promise<RankClimber[]> =>
+      backend.movement.climbers(boardId, checkpointDay(CLIMBER_DAYS), CLIMBER_COUNT),
+    enabled: !!boardId,
+  });
+}
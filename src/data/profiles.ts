@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { Member, SeasonStanding } from "./types";
+
+/** A player's rows on every board their account is linked to, and where those rows finished past seasons. */
+export interface Profile {
+  /** Best rank first; just the one member when it is not linked to an account */
+  members: Member[];
+  standings: SeasonStanding[];
+}
+
+/** The profile a member belongs to, or null when the member does not exist or is in the trash. */
+export function useProfile(memberId?: string) {
+  return useQuery({
+    queryKey: queryKeys.profile(memberId ?? ""),
+    queryFn: async (): Promise<Profile | null> => {
+      const member = await backend.members.get(memberId);
+      if (!member) return null;
+
+      const linked = member.profile_id ? await backend.members.listByProfile(member.profile_id) : [];
+      const members = linked.length > 0 ? linked : [member];
+      const standings = await backend.seasons.standingsForMembers(members.map((m) => m.id));
+
+      return { members, standings };
+    },
+    enabled: !!memberId,
+  });
+}
+
+/**
+ * Set the display name, and optionally the photo, on every member row linked
+ * to the signed-in user. Avatars are stored per member row, so each board gets
+ * its own copy; null removes them.
+ */
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ members, name, avatar }: { members: Member[]; name: string; avatar?: Blob | null }) => {
+      for (const member of members) {
+        const avatarUrl = avatar ? await backend.members.uploadAvatar(member.id, avatar) : null;
+        await backend.members.update(member.id, avatar === undefined ? { name } : { name, avatar_url: avatarUrl });
+        if (avatar === null) await backend.members.removeAvatars(member.id);
+      }
+    },
+    // Names and photos show on every board the rows are on
+    onSettled: (_data, _error, { members }) =>
+      members.forEach((member) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.members(member.leaderboard_id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.member(member.id) });
+      }),
+  });
+}
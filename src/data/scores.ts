@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { ScoreEvent } from "./types";
+
+/** Every score change for a member, newest first. */
+export function useScoreHistory(memberId?: string) {
+  return useQuery({
+    queryKey: queryKeys.scoreHistory(memberId ?? ""),
+    queryFn: (): Promise<ScoreEvent[]> => backend.scores.history(memberId),
+    enabled: !!memberId,
+  });
+}
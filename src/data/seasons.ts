@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { RankedMember, Season } from "./types";
+
+/** A board's seasons, newest first. At most one is still open. */
+export function useSeasons(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.seasons(boardId ?? ""),
+    queryFn: (): Promise<Season[]> => backend.seasons.list(boardId),
+    enabled: !!boardId,
+  });
+}
+
+/** Frozen standings of a closed season, keyed by member where it still exists. */
+export function useSeasonStandings(seasonId?: string) {
+  return useQuery({
+    queryKey: queryKeys.standings(seasonId ?? ""),
+    queryFn: async (): Promise<RankedMember[]> => {
+      const standings = await backend.seasons.standings(seasonId);
+
+      return standings.map((standing) => ({
+        id: standing.member_id || standing.id,
+        name: standing.name,
+        score: standing.score,
+        avatar_url: standing.avatar_url,
+        rank: standing.rank,
+        updated_at: standing.created_at,
+      }));
+    },
+    enabled: !!seasonId,
+    // Closed seasons never change
+    staleTime: Infinity,
+  });
+}
+
+/** Archive the open season and start the next one, carrying over part of each score. */
+export function useCloseSeason(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ carryOverPercent, nextName }: { carryOverPercent: number; nextName?: string | null }) =>
+      backend.seasons.close(boardId, carryOverPercent, nextName),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.seasons(boardId) });
+    },
+  });
+}
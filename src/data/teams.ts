@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { Team, TeamStanding } from "./types";
+
+/** A board's teams in name order, including ones without members. */
+export function useTeams(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.teams(boardId ?? ""),
+    queryFn: (): Promise<Team[]> => backend.teams.list(boardId),
+    enabled: !!boardId,
+  });
+}
+
+/** Teams ranked by their members' scores, shaped like ranked members for the podium and rows. */
+export function useTeamStandings(boardId?: string) {
+  return useQuery({
+    queryKey: queryKeys.teamStandings(boardId ?? ""),
+    queryFn: async (): Promise<TeamStanding[]> => {
+      const standings = await backend.teams.standings(boardId);
+      return standings.map((team) => ({ ...team, avatar_url: null }));
+    },
+    enabled: !!boardId,
+  });
+}
+
+/** Create a team on a board, or rename it when an id is given. */
+export function useSaveTeam(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, name }: { id?: string; name: string }) => backend.teams.save(boardId, name, id),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.teams(boardId) });
+    },
+  });
+}
+
+/** Delete a team; its members stay on the board without one. */
+export function useDeleteTeam(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (teamId: string) => backend.teams.remove(teamId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.teams(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+    },
+  });
+}
+
+/** Put a member on a team, or take them off theirs with null. */
+export function useAssignTeam(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ memberId, teamId }: { memberId: string; teamId: string | null }) =>
+      backend.members.update(memberId, { team_id: teamId }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.members(boardId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.teams(boardId) });
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import type { Database, Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { AppRole } from "@/lib/permissions";
+
+export type Badge = Tables<"badges">;
+export type BadgeValues = TablesInsert<"badges">;
+export type BadgeRule = Badge["rule"];
+/** A badge a member has earned, with the badge itself. */
+export type AwardedBadge = Tables<"member_badges"> & { badge: Badge };
+export type Board = Tables<"leaderboards">;
+export type BoardValues = TablesInsert<"leaderboards">;
+export type Member = Tables<"leaderboard_members">;
+export type MemberUpdate = TablesUpdate<"leaderboard_members">;
+export type Season = Tables<"seasons">;
+export type Team = Tables<"teams">;
+export type TeamScoring = Board["team_scoring"];
+export type TeamStandingRow = Database["public"]["Functions"]["team_standings"]["Returns"][number];
+export type RankCheckpoint = Board["rank_checkpoint"];
+/** A member's rank at a daily snapshot. */
+export type CheckpointRank = Database["public"]["Functions"]["checkpoint_ranks"]["Returns"][number];
+/** A member who gained places since a day, with the rank they had then. */
+export type RankClimber = Database["public"]["Functions"]["rank_climbers"]["Returns"][number];
+
+/**
+ * A row in a ranking: a live member, or a closed season's standing mapped onto
+ * the same shape so both can be rendered by one component.
+ */
+export type RankedMember = Pick<Member, "id" | "name" | "score" | "avatar_url" | "rank" | "updated_at"> &
+  Partial<Pick<Member, "profile_id">>;
+/** A team's place on its board, shaped like a ranked member so the same components can show it. */
+export type TeamStanding = RankedMember & { member_count: number };
+
+/** Orders a list can be shown in; "updated" puts the most recently changed first. */
+export type MemberSort = "rank" | "name" | "updated";
+
+/** Narrowing and ordering of a board's members, as set from the filter bar and URL. */
+export interface MemberFilters {
+  /** Typo-tolerant name search */
+  search?: string;
+  minScore?: number;
+  maxScore?: number;
+  sort?: MemberSort;
+}
+
+export type MemberInsert = Pick<TablesInsert<"leaderboard_members">, "name" | "score">;
+export type SeasonStanding = Tables<"season_standings">;
+export type ScoreEventKind = Tables<"score_events">["kind"];
+
+export type ScoreEvent = Tables<"score_events"> & {
+  actor: { full_name: string | null } | null;
+};
+
+/** A row as the import sends it; rows match existing members on external id, then name. */
+export type ImportedMember = Pick<Member, "name" | "avatar_url" | "external_id"> & { score: number | null };
+
+export interface ImportResult {
+  inserted: number;
+  updated: number;
+}
+
+/** How a user is named wherever the app shows who did something. */
+export type AccountName = Pick<Tables<"profiles">, "full_name" | "email">;
+
+/** A signed-up account and the roles granted to it. */
+export type UserAccount = Pick<Tables<"profiles">, "id" | "email" | "full_name" | "created_at"> & {
+  roles: AppRole[];
+};
+
+/** A change to an audited row, with who made it. */
+export type AuditEntry = Tables<"audit_log"> & { actor: AccountName | null };
+
+export type ClaimStatus = Tables<"score_claims">["status"];
+
+/** A reported score change, with the member it is for and who submitted and reviewed it. */
+export type ScoreClaim = Tables<"score_claims"> & {
+  member: { name: string; score: number; leaderboard: { name: string } | null } | null;
+  submitter: AccountName | null;
+  reviewer: AccountName | null;
+};
+
+/** Where redeeming an invite code left the member it was for. */
+export interface ClaimedMember {
+  member_id: string;
+  leaderboard_slug: string;
+}
+
+/** The parts of a signed-in user the app relies on, whichever backend provides them. */
+export interface AppUser {
+  id: string;
+  email?: string;
+}
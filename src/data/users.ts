@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AppRole } from "@/lib/permissions";
+import { backend } from "./backend";
+import { queryKeys } from "./keys";
+import type { UserAccount } from "./types";
+
+/** Every account and the roles it has, oldest first. */
+export function useUsers() {
+  return useQuery({
+    queryKey: queryKeys.users,
+    queryFn: (): Promise<UserAccount[]> => backend.users.list(),
+  });
+}
+
+/** Grant a role to a user, or take it away when `granted` is false. */
+export function useSetRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, role, granted }: { userId: string; role: AppRole; granted: boolean }) =>
+      granted ? backend.roles.grant(userId, role) : backend.roles.revoke(userId, role),
+    onSettled: (_data, _error, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users });
+      queryClient.invalidateQueries({ queryKey: queryKeys.permissions(userId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.isAdmin(userId) });
+    },
+  });
+}
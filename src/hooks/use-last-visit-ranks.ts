@@ -0,0 +1,73 @@
+import * as React from "react"
+import type { RankedMember } from "@/data"
+
+const SEEN_KEY = "leaderboard:seen-ranks"
+const BASELINE_KEY = "leaderboard:visit-baseline"
+// Most recently shown members remembered per board; older ones are dropped first
+const MAX_SEEN_MEMBERS = 500
+// Scrolling and live updates change the shown rows often; save once they settle
+const SAVE_DELAY_MS = 1000
+
+const readRanks = (storage: Storage, key: string): Record<string, number> | null => {
+  try {
+    const saved = storage.getItem(key)
+    return saved === null ? null : JSON.parse(saved)
+  } catch {
+    return null
+  }
+}
+
+const writeRanks = (storage: Storage, key: string, ranks: Record<string, number>) => {
+  try {
+    storage.setItem(key, JSON.stringify(ranks))
+  } catch {
+    // Storage is full or blocked; movement falls back to no change
+  }
+}
+
+/**
+ * Ranks as the viewer last saw them on a board before this browser session,
+ * by member id, for showing movement since their last visit. The ranks of
+ * members shown now are remembered for the next session, up to the most
+ * recent {@link MAX_SEEN_MEMBERS}.
+ */
+export function useLastVisitRanks(boardId: string | undefined, shown: RankedMember[]) {
+  const baseline = React.useMemo(() => {
+    if (!boardId) return new Map<string, number>()
+
+    // Taken once per session, so moving around the app keeps the same baseline
+    const baselineKey = `${BASELINE_KEY}:${boardId}`
+    let ranks = readRanks(sessionStorage, baselineKey)
+    if (!ranks) {
+      ranks = readRanks(localStorage, `${SEEN_KEY}:${boardId}`) ?? {}
+      writeRanks(sessionStorage, baselineKey, ranks)
+    }
+    return new Map(Object.entries(ranks))
+  }, [boardId])
+
+  // Saved on unmount too, so a short visit still counts
+  const pendingSave = React.useRef<(() => void) | null>(null)
+  React.useEffect(() => () => pendingSave.current?.(), [boardId])
+
+  React.useEffect(() => {
+    if (!boardId || shown.length === 0) return
+
+    const save = () => {
+      pendingSave.current = null
+      const seenKey = `${SEEN_KEY}:${boardId}`
+      const shownRanks = shown
+        .filter((member) => member.rank !== null)
+        .map((member): [string, number] => [member.id, member.rank])
+      const shownIds = new Set(shownRanks.map(([id]) => id))
+      const earlier = Object.entries(readRanks(localStorage, seenKey) ?? {}).filter(([id]) => !shownIds.has(id))
+
+      writeRanks(localStorage, seenKey, Object.fromEntries([...shownRanks, ...earlier].slice(0, MAX_SEEN_MEMBERS)))
+    }
+    pendingSave.current = save
+    const timer = setTimeout(save, SAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [boardId, shown])
+
+  return baseline
+}
@@ -0,0 +1,56 @@
+import * as React from "react"
+import { useSearchParams } from "react-router-dom"
+import type { MemberFilters, MemberSort } from "@/data"
+
+const SORTS: MemberSort[] = ["rank", "name", "updated"]
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Member filters kept in the URL query (`q`, `min`, `max` and `sort`), so a
+ * filtered view can be shared as a link. Defaults are left out of the URL.
+ */
+export function useMemberFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const q = searchParams.get("q")
+  const min = searchParams.get("min")
+  const max = searchParams.get("max")
+  const sort = searchParams.get("sort")
+
+  const filters = React.useMemo<MemberFilters>(
+    () => ({
+      search: q?.trim() || undefined,
+      minScore: parseNumber(min),
+      maxScore: parseNumber(max),
+      sort: SORTS.includes(sort as MemberSort) ? (sort as MemberSort) : "rank",
+    }),
+    [q, min, max, sort]
+  )
+
+  const setFilters = React.useCallback(
+    (next: MemberFilters) => {
+      setSearchParams(
+        (params) => {
+          const updated = new URLSearchParams(params)
+          const values: [string, string | undefined][] = [
+            ["q", next.search?.trim() || undefined],
+            ["min", next.minScore?.toString()],
+            ["max", next.maxScore?.toString()],
+            ["sort", next.sort && next.sort !== "rank" ? next.sort : undefined],
+          ]
+          values.forEach(([key, value]) => (value === undefined ? updated.delete(key) : updated.set(key, value)))
+          return updated
+        },
+        { replace: true }
+      )
+    },
+    [setSearchParams]
+  )
+
+  return { filters, setFilters }
+}
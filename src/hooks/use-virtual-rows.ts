@@ -0,0 +1,53 @@
+import * as React from "react"
+
+const DEFAULT_OVERSCAN = 5
+
+/**
+ * Windowing for a scrollable list of fixed-height rows: only rows from `start`
+ * up to (not including) `end` need rendering, each positioned absolutely at
+ * `index * rowHeight` inside an element `totalHeight` tall. Attach
+ * `containerRef` to the element that scrolls.
+ */
+export function useVirtualRows(count: number, rowHeight: number, overscan = DEFAULT_OVERSCAN) {
+  const [container, setContainer] = React.useState<HTMLElement | null>(null)
+  const [scrollTop, setScrollTop] = React.useState(0)
+  const [viewportHeight, setViewportHeight] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!container) return
+
+    const onScroll = () => setScrollTop(container.scrollTop)
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight))
+
+    container.addEventListener("scroll", onScroll, { passive: true })
+    observer.observe(container)
+    onScroll()
+    setViewportHeight(container.clientHeight)
+
+    return () => {
+      container.removeEventListener("scroll", onScroll)
+      observer.disconnect()
+    }
+  }, [container])
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan)
+
+  /** Scroll so the row at `index` sits in the middle of the list */
+  const scrollToIndex = React.useCallback(
+    (index: number, behavior: ScrollBehavior = "smooth") => {
+      container?.scrollTo({ top: index * rowHeight - (container.clientHeight - rowHeight) / 2, behavior })
+    },
+    [container, rowHeight]
+  )
+
+  /** Keep the same rows in view after `rows` were inserted above them */
+  const shiftBy = React.useCallback(
+    (rows: number) => {
+      if (container) container.scrollTop += rows * rowHeight
+    },
+    [container, rowHeight]
+  )
+
+  return { containerRef: setContainer, start, end, totalHeight: count * rowHeight, scrollToIndex, shiftBy }
+}
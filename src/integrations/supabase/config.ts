@@ -0,0 +1,45 @@
+/**
+ * Supabase connection settings, read from Vite env so each environment (the
+ * hosted project, staging, a local `supabase start` stack) can point at its
+ * own database. Problems are collected rather than thrown so the app can show
+ * them instead of a blank page.
+ */
+export interface SupabaseConfig {
+  url: string;
+  publishableKey: string;
+  problems: string[];
+}
+
+// Decode a JWT's payload without verifying it, to catch the wrong key being pasted
+const readJwtRole = (token: string): string | null => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)).role ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const readSupabaseConfig = (env: ImportMetaEnv): SupabaseConfig => {
+  const url = env.VITE_SUPABASE_URL?.trim() ?? "";
+  const publishableKey = env.VITE_SUPABASE_PUBLISHABLE_KEY?.trim() ?? "";
+  const problems: string[] = [];
+
+  if (!url) {
+    problems.push("VITE_SUPABASE_URL is not set.");
+  } else if (!/^https?:\/\/[^/]+/.test(url)) {
+    problems.push(`VITE_SUPABASE_URL must be an http(s) URL, but is "${url}".`);
+  }
+
+  if (!publishableKey) {
+    problems.push("VITE_SUPABASE_PUBLISHABLE_KEY is not set.");
+  } else if (publishableKey.startsWith("sb_secret_") || readJwtRole(publishableKey) === "service_role") {
+    problems.push("VITE_SUPABASE_PUBLISHABLE_KEY is a secret service role key. Use the anon (publishable) key; the secret key must never ship to browsers.");
+  } else if (!publishableKey.startsWith("sb_publishable_") && readJwtRole(publishableKey) !== "anon") {
+    problems.push("VITE_SUPABASE_PUBLISHABLE_KEY does not look like an anon (publishable) key.");
+  }
+
+  return { url, publishableKey, problems };
+};
+
+export const supabaseConfig = readSupabaseConfig(import.meta.env);
@@ -14,36 +14,336 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      badge_streaks: {
+        Row: {
+          badge_id: string
+          member_id: string
+          since: string
+        }
+        Insert: {
+          badge_id: string
+          member_id: string
+          since?: string
+        }
+        Update: {
+          badge_id?: string
+          member_id?: string
+          since?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "badge_streaks_badge_id_fkey"
+            columns: ["badge_id"]
+            isOneToOne: false
+            referencedRelation: "badges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "badge_streaks_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      badges: {
+        Row: {
+          created_at: string
+          days: number
+          description: string | null
+          icon: string
+          id: string
+          leaderboard_id: string | null
+          name: string
+          rule: Database["public"]["Enums"]["badge_rule"]
+          threshold: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          days?: number
+          description?: string | null
+          icon?: string
+          id?: string
+          leaderboard_id?: string | null
+          name: string
+          rule: Database["public"]["Enums"]["badge_rule"]
+          threshold: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          days?: number
+          description?: string | null
+          icon?: string
+          id?: string
+          leaderboard_id?: string | null
+          name?: string
+          rule?: Database["public"]["Enums"]["badge_rule"]
+          threshold?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "badges_leaderboard_id_fkey"
+            columns: ["leaderboard_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leaderboard_members: {
         Row: {
           avatar_url: string | null
           created_at: string
+          deleted_at: string | null
+          external_id: string | null
           id: string
+          leaderboard_id: string
           name: string
+          profile_id: string | null
           rank: number | null
           score: number
+          score_reached_at: string
+          secondary_score: number | null
+          team_id: string | null
           updated_at: string
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
+          deleted_at?: string | null
+          external_id?: string | null
           id?: string
+          leaderboard_id: string
           name: string
+          profile_id?: string | null
           rank?: number | null
           score?: number
+          score_reached_at?: string
+          secondary_score?: number | null
+          team_id?: string | null
           updated_at?: string
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
+          deleted_at?: string | null
+          external_id?: string | null
           id?: string
+          leaderboard_id?: string
           name?: string
+          profile_id?: string | null
           rank?: number | null
           score?: number
+          score_reached_at?: string
+          secondary_score?: number | null
+          team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leaderboard_members_leaderboard_id_fkey"
+            columns: ["leaderboard_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leaderboard_members_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leaderboard_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leaderboards: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_private: boolean
+          name: string
+          rank_checkpoint: Database["public"]["Enums"]["rank_checkpoint"]
+          rank_style: Database["public"]["Enums"]["rank_style"]
+          scoring_direction: Database["public"]["Enums"]["scoring_direction"]
+          slug: string
+          team_scoring: Database["public"]["Enums"]["team_scoring"]
+          team_top_n: number
+          tie_breaker: Database["public"]["Enums"]["tie_breaker"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_private?: boolean
+          name: string
+          rank_checkpoint?: Database["public"]["Enums"]["rank_checkpoint"]
+          rank_style?: Database["public"]["Enums"]["rank_style"]
+          scoring_direction?: Database["public"]["Enums"]["scoring_direction"]
+          slug: string
+          team_scoring?: Database["public"]["Enums"]["team_scoring"]
+          team_top_n?: number
+          tie_breaker?: Database["public"]["Enums"]["tie_breaker"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_private?: boolean
+          name?: string
+          rank_checkpoint?: Database["public"]["Enums"]["rank_checkpoint"]
+          rank_style?: Database["public"]["Enums"]["rank_style"]
+          scoring_direction?: Database["public"]["Enums"]["scoring_direction"]
+          slug?: string
+          team_scoring?: Database["public"]["Enums"]["team_scoring"]
+          team_top_n?: number
+          tie_breaker?: Database["public"]["Enums"]["tie_breaker"]
           updated_at?: string
         }
         Relationships: []
       }
+      member_badges: {
+        Row: {
+          awarded_at: string
+          badge_id: string
+          id: string
+          member_id: string
+        }
+        Insert: {
+          awarded_at?: string
+          badge_id: string
+          id?: string
+          member_id: string
+        }
+        Update: {
+          awarded_at?: string
+          badge_id?: string
+          id?: string
+          member_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_badges_badge_id_fkey"
+            columns: ["badge_id"]
+            isOneToOne: false
+            referencedRelation: "badges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_badges_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      member_invites: {
+        Row: {
+          claimed_at: string | null
+          claimed_by: string | null
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          member_id: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          member_id: string
+        }
+        Update: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          member_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_invites_claimed_by_fkey"
+            columns: ["claimed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_invites_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -71,6 +371,306 @@ export type Database = {
         }
         Relationships: []
       }
+      rank_snapshots: {
+        Row: {
+          leaderboard_id: string
+          member_id: string
+          rank: number
+          taken_on: string
+        }
+        Insert: {
+          leaderboard_id: string
+          member_id: string
+          rank: number
+          taken_on?: string
+        }
+        Update: {
+          leaderboard_id?: string
+          member_id?: string
+          rank?: number
+          taken_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rank_snapshots_leaderboard_id_fkey"
+            columns: ["leaderboard_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rank_snapshots_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      score_claims: {
+        Row: {
+          created_at: string
+          evidence_path: string | null
+          id: string
+          kind: Database["public"]["Enums"]["score_event_kind"]
+          member_id: string
+          note: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["claim_status"]
+          submitted_by: string | null
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          evidence_path?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["score_event_kind"]
+          member_id: string
+          note?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["claim_status"]
+          submitted_by?: string | null
+          value: number
+        }
+        Update: {
+          created_at?: string
+          evidence_path?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["score_event_kind"]
+          member_id?: string
+          note?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["claim_status"]
+          submitted_by?: string | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_claims_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_claims_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_claims_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      score_events: {
+        Row: {
+          actor_id: string | null
+          claim_id: string | null
+          created_at: string
+          id: string
+          kind: Database["public"]["Enums"]["score_event_kind"]
+          member_id: string
+          new_score: number
+          previous_score: number
+          reason: string | null
+          value: number
+        }
+        Insert: {
+          actor_id?: string | null
+          claim_id?: string | null
+          created_at?: string
+          id?: string
+          kind: Database["public"]["Enums"]["score_event_kind"]
+          member_id: string
+          new_score?: number
+          previous_score?: number
+          reason?: string | null
+          value: number
+        }
+        Update: {
+          actor_id?: string | null
+          claim_id?: string | null
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["score_event_kind"]
+          member_id?: string
+          new_score?: number
+          previous_score?: number
+          reason?: string | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_events_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "score_claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_events_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      season_standings: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          id: string
+          member_id: string | null
+          name: string
+          rank: number
+          score: number
+          season_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          id?: string
+          member_id?: string | null
+          name: string
+          rank: number
+          score: number
+          season_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          id?: string
+          member_id?: string | null
+          name?: string
+          rank?: number
+          score?: number
+          season_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_standings_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "season_standings_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasons: {
+        Row: {
+          carry_over_percent: number
+          created_at: string
+          ended_at: string | null
+          id: string
+          leaderboard_id: string
+          name: string
+          number: number
+          started_at: string
+        }
+        Insert: {
+          carry_over_percent?: number
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          leaderboard_id: string
+          name: string
+          number: number
+          started_at?: string
+        }
+        Update: {
+          carry_over_percent?: number
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          leaderboard_id?: string
+          name?: string
+          number?: number
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seasons_leaderboard_id_fkey"
+            columns: ["leaderboard_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          leaderboard_id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          leaderboard_id: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          leaderboard_id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_leaderboard_id_fkey"
+            columns: ["leaderboard_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -94,6 +694,81 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      assert_members_exist: {
+        Args: {
+          _member_ids: string[]
+        }
+        Returns: undefined
+      }
+      award_badges: {
+        Args: {
+          _leaderboard_ids?: string[]
+        }
+        Returns: undefined
+      }
+      bulk_adjust_scores: {
+        Args: {
+          _member_ids: string[]
+          _kind: Database["public"]["Enums"]["score_event_kind"]
+          _value: number
+          _reason?: string
+        }
+        Returns: number
+      }
+      bulk_delete_members: {
+        Args: {
+          _member_ids: string[]
+        }
+        Returns: number
+      }
+      bulk_move_members: {
+        Args: {
+          _member_ids: string[]
+          _leaderboard_id: string
+        }
+        Returns: number
+      }
+      can_view_leaderboard: {
+        Args: {
+          _leaderboard_id: string
+        }
+        Returns: boolean
+      }
+      checkpoint_ranks: {
+        Args: {
+          _leaderboard_id: string
+          _since: string
+        }
+        Returns: {
+          member_id: string
+          rank: number
+        }[]
+      }
+      claim_member: {
+        Args: {
+          _code: string
+        }
+        Returns: Json
+      }
+      close_season: {
+        Args: {
+          _leaderboard_id: string
+          _carry_over_percent?: number
+          _next_name?: string
+        }
+        Returns: string
+      }
+      get_my_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
+      has_permission: {
+        Args: {
+          _user_id: string
+          _permission: Database["public"]["Enums"]["app_permission"]
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -101,9 +776,113 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_members: {
+        Args: {
+          _leaderboard_id: string
+          _rows: Json
+        }
+        Returns: Json
+      }
+      purge_members: {
+        Args: {
+          _member_ids: string[]
+        }
+        Returns: number
+      }
+      rank_climbers: {
+        Args: {
+          _leaderboard_id: string
+          _since: string
+          _limit?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          avatar_url: string | null
+          score: number
+          rank: number
+          previous_rank: number
+          updated_at: string
+        }[]
+      }
+      refresh_leaderboard_ranks: {
+        Args: {
+          _leaderboard_ids?: string[]
+        }
+        Returns: undefined
+      }
+      restore_members: {
+        Args: {
+          _member_ids: string[]
+        }
+        Returns: number
+      }
+      review_score_claim: {
+        Args: {
+          _claim_id: string
+          _approve: boolean
+          _note?: string
+        }
+        Returns: undefined
+      }
+      search_leaderboard_members: {
+        Args: {
+          _leaderboard_id: string
+          _query: string
+        }
+        Returns: {
+          avatar_url: string | null
+          created_at: string
+          deleted_at: string | null
+          external_id: string | null
+          id: string
+          leaderboard_id: string
+          name: string
+          profile_id: string | null
+          rank: number | null
+          score: number
+          score_reached_at: string
+          secondary_score: number | null
+          team_id: string | null
+          updated_at: string
+        }[]
+      }
+      snapshot_ranks: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      team_standings: {
+        Args: {
+          _leaderboard_id: string
+        }
+        Returns: {
+          id: string
+          name: string
+          score: number
+          rank: number
+          member_count: number
+          updated_at: string
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      app_permission:
+        | "view_private_boards"
+        | "adjust_scores"
+        | "edit_member_details"
+        | "manage_members"
+        | "manage_boards"
+        | "manage_users"
+        | "review_claims"
+      app_role: "admin" | "user" | "moderator" | "scorekeeper" | "viewer"
+      badge_rule: "score_reached" | "rank_held" | "season_finish"
+      claim_status: "pending" | "approved" | "rejected"
+      rank_checkpoint: "daily" | "last_visit"
+      rank_style: "competition" | "dense" | "ordinal"
+      score_event_kind: "delta" | "absolute"
+      scoring_direction: "higher_wins" | "lower_wins"
+      team_scoring: "sum" | "average" | "top_n_sum"
+      tie_breaker: "earliest_to_score" | "secondary_score" | "joined_first"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -231,7 +1010,24 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      app_permission: [
+        "view_private_boards",
+        "adjust_scores",
+        "edit_member_details",
+        "manage_members",
+        "manage_boards",
+        "manage_users",
+        "review_claims",
+      ],
+      app_role: ["admin", "user", "moderator", "scorekeeper", "viewer"],
+      badge_rule: ["score_reached", "rank_held", "season_finish"],
+      claim_status: ["pending", "approved", "rejected"],
+      rank_checkpoint: ["daily", "last_visit"],
+      rank_style: ["competition", "dense", "ordinal"],
+      score_event_kind: ["delta", "absolute"],
+      scoring_direction: ["higher_wins", "lower_wins"],
+      team_scoring: ["sum", "average", "top_n_sum"],
+      tie_breaker: ["earliest_to_score", "secondary_score", "joined_first"],
     },
   },
 } as const
@@ -0,0 +1,54 @@
+const AVATAR_SIZE = 256;
+const AVATAR_TYPE = "image/webp";
+
+export const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+/** Stable background colour for a name, so generated avatars don't change between visits. */
+export const getAvatarColor = (name: string) => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360} 55% 40%)`;
+};
+
+/** Centre-crop an image file to a square and scale it down to avatar size. */
+export async function cropToSquare(file: Blob, size = AVATAR_SIZE): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const target = Math.min(size, side);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = target;
+  canvas.height = target;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    target,
+    target
+  );
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not process the image"))),
+      AVATAR_TYPE,
+      0.9
+    );
+  });
+}
@@ -0,0 +1,34 @@
+import { Award, Crown, Flame, Gem, Medal, Rocket, Star, Target, Trophy, Zap } from "lucide-react";
+import type { Badge } from "@/data";
+
+/** Icons a badge can use, by the name stored on it. */
+export const BADGE_ICONS: Record<string, typeof Award> = {
+  award: Award,
+  crown: Crown,
+  trophy: Trophy,
+  medal: Medal,
+  star: Star,
+  flame: Flame,
+  zap: Zap,
+  target: Target,
+  rocket: Rocket,
+  gem: Gem,
+};
+
+export const getBadgeIcon = (icon: string) => BADGE_ICONS[icon] ?? Award;
+
+const describePlace = (rank: number) => (rank === 1 ? "#1" : `the top ${rank}`);
+
+/** What a member has to do to earn a badge, e.g. "Hold #1 for 7 days". */
+export const describeBadgeRule = ({ rule, threshold, days }: Pick<Badge, "rule" | "threshold" | "days">) => {
+  switch (rule) {
+    case "score_reached":
+      return `Reach ${threshold.toLocaleString()} points`;
+    case "rank_held":
+      return days > 0
+        ? `Hold ${describePlace(threshold)} for ${days} ${days === 1 ? "day" : "days"}`
+        : `Reach ${describePlace(threshold)}`;
+    case "season_finish":
+      return threshold === 1 ? "Win a season" : `Finish a season in ${describePlace(threshold)}`;
+  }
+};
@@ -0,0 +1 @@
+export const MAX_EVIDENCE_BYTES = 5 * 1024 * 1024;
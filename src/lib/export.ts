@@ -0,0 +1,61 @@
+export interface StandingRow {
+  rank: number;
+  name: string;
+  score: number;
+  updated_at?: string | null;
+}
+
+export type ExportFormat = "csv" | "json";
+
+const CSV_COLUMNS: (keyof StandingRow)[] = ["rank", "name", "score", "updated_at"];
+
+// Spreadsheets run text starting with these as a formula, so such names are exported with a leading quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: unknown) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function standingsToCsv(rows: StandingRow[]): string {
+  const lines = rows.map((row) => CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...lines].join("\r\n");
+}
+
+export function standingsToJson(rows: StandingRow[]): string {
+  return JSON.stringify(
+    rows.map(({ rank, name, score, updated_at }) => ({
+      rank,
+      name,
+      score,
+      updated_at: updated_at ?? null,
+    })),
+    null,
+    2
+  );
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so keep the URL alive a little longer
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Download the standings as `<name>-standings-<yyyy-mm-dd>.<format>`. */
+export function exportStandings(name: string, rows: StandingRow[], format: ExportFormat) {
+  const date = new Date().toISOString().slice(0, 10);
+  const fileName = `${name}-standings-${date}.${format}`;
+
+  if (format === "csv") {
+    downloadFile(fileName, standingsToCsv(rows), "text/csv;charset=utf-8");
+  } else {
+    downloadFile(fileName, standingsToJson(rows), "application/json");
+  }
+}
@@ -0,0 +1,250 @@
+export type ImportField = "name" | "score" | "avatar_url" | "external_id";
+
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export interface ParsedImport {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportRow {
+  line: number;
+  name: string;
+  score: number | null;
+  avatar_url: string | null;
+  external_id: string | null;
+  action: "insert" | "update";
+  matchedId: string | null;
+  errors: string[];
+}
+
+export interface ExistingMember {
+  id: string;
+  name: string;
+  external_id?: string | null;
+  created_at?: string;
+}
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean }[] = [
+  { key: "name", label: "Name", required: true },
+  { key: "score", label: "Score", required: false },
+  { key: "avatar_url", label: "Avatar URL", required: false },
+  { key: "external_id", label: "External ID", required: false },
+];
+
+const MAX_NAME_LENGTH = 100;
+const MAX_SCORE = 2147483647;
+
+// Accepted spellings for each field when guessing the column mapping
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "member", "player", "full_name", "fullname", "display_name"],
+  score: ["score", "points", "total", "value"],
+  avatar_url: ["avatar_url", "avatar", "image", "photo", "picture"],
+  external_id: ["external_id", "externalid", "id", "member_id", "player_id", "email"],
+};
+
+const normaliseHeader = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+export function parseCsv(text: string): ParsedImport {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ""));
+  if (nonEmpty.length === 0) {
+    throw new Error("The file is empty");
+  }
+
+  const columns = nonEmpty[0].map((column) => column.trim());
+  const rows = nonEmpty.slice(1).map((values) =>
+    Object.fromEntries(columns.map((column, idx) => [column, (values[idx] ?? "").trim()]))
+  );
+
+  return { columns, rows };
+}
+
+export function parseJson(text: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!Array.isArray(data) || data.some((item) => typeof item !== "object" || item === null)) {
+    throw new Error("JSON imports must be an array of objects");
+  }
+
+  const columns = Array.from(new Set(data.flatMap((item) => Object.keys(item))));
+  const rows = data.map((item) =>
+    Object.fromEntries(
+      columns.map((column) => {
+        const value = item[column];
+        return [column, value === null || value === undefined ? "" : String(value).trim()];
+      })
+    )
+  );
+
+  return { columns, rows };
+}
+
+export function parseImportFile(fileName: string, text: string): ParsedImport {
+  const looksLikeJson = fileName.toLowerCase().endsWith(".json") || /^\s*\[/.test(text);
+  return looksLikeJson ? parseJson(text) : parseCsv(text);
+}
+
+export function guessMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = { name: null, score: null, avatar_url: null, external_id: null };
+
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const match = columns.find(
+      (column) =>
+        FIELD_ALIASES[key].includes(normaliseHeader(column)) &&
+        !Object.values(mapping).includes(column)
+    );
+    mapping[key] = match ?? null;
+  });
+
+  return mapping;
+}
+
+const parseScore = (value: string): number | null => {
+  if (value === "") return null;
+  const cleaned = value.replace(/[,_\s]/g, "");
+  if (!/^-?\d+$/.test(cleaned)) return NaN;
+  return Number(cleaned);
+};
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// A member as the import will leave it, with the line of the file that last touched it
+interface PlannedMember {
+  id: string | null;
+  name: string;
+  external_id: string | null;
+  line: number | null;
+}
+
+/**
+ * Validate every row and decide whether it inserts a new member or updates an
+ * existing one. Rows are matched the way import_members does it, one after
+ * another: on external id first, then on case-insensitive name, taking the
+ * oldest member when several share it, against the board as the earlier rows
+ * of the file have already changed it. A row that lands on a member an earlier
+ * row added or updated is rejected.
+ */
+export function buildImportPlan(
+  parsed: ParsedImport,
+  mapping: ColumnMapping,
+  existing: ExistingMember[]
+): ImportRow[] {
+  const oldestFirst = [...existing].sort((a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? ""));
+  const members: PlannedMember[] = oldestFirst.map((m) => ({
+    id: m.id,
+    name: m.name,
+    external_id: m.external_id ?? null,
+    line: null,
+  }));
+
+  const read = (row: Record<string, string>, field: ImportField) =>
+    mapping[field] ? (row[mapping[field] as string] ?? "").trim() : "";
+
+  return parsed.rows.map((row, idx) => {
+    // Line numbers count the CSV header so they match what spreadsheets show
+    const line = idx + 2;
+    const errors: string[] = [];
+
+    const name = read(row, "name");
+    const rawScore = read(row, "score");
+    const avatarUrl = read(row, "avatar_url");
+    const externalId = read(row, "external_id");
+
+    if (!name) {
+      errors.push("Name is required");
+    } else if (name.length > MAX_NAME_LENGTH) {
+      errors.push(`Name is longer than ${MAX_NAME_LENGTH} characters`);
+    }
+
+    const score = parseScore(rawScore);
+    if (Number.isNaN(score)) {
+      errors.push(`Score "${rawScore}" is not a whole number`);
+    } else if (score !== null && Math.abs(score) > MAX_SCORE) {
+      errors.push("Score is too large");
+    }
+
+    if (avatarUrl && !isValidUrl(avatarUrl)) {
+      errors.push("Avatar URL must start with http:// or https://");
+    }
+
+    const match =
+      (externalId && members.find((m) => m.external_id === externalId)) ||
+      members.find((m) => m.name.trim().toLowerCase() === name.toLowerCase());
+
+    if (match && match.line !== null) {
+      errors.push(`Duplicate of line ${match.line}`);
+    } else if (match) {
+      match.name = name;
+      match.external_id = externalId || match.external_id;
+      match.line = line;
+    } else if (name) {
+      members.push({ id: null, name, external_id: externalId || null, line });
+    }
+
+    const matchedId = match?.id ?? null;
+
+    return {
+      line,
+      name,
+      score: Number.isNaN(score) ? null : score,
+      avatar_url: avatarUrl || null,
+      external_id: externalId || null,
+      action: match ? "update" : "insert",
+      matchedId,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,25 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+export type Permission = Database["public"]["Enums"]["app_permission"];
+
+/** Roles an admin can grant from the Users tab, most powerful first. */
+export const ASSIGNABLE_ROLES: { role: AppRole; label: string; description: string }[] = [
+  { role: "admin", label: "Admin", description: "Full access, including boards, users and score claims" },
+  { role: "moderator", label: "Moderator", description: "Edit member names and avatars" },
+  { role: "scorekeeper", label: "Scorekeeper", description: "Adjust scores" },
+  { role: "viewer", label: "Viewer", description: "See private boards" },
+];
+
+// Any of these lets a user into the admin panel
+const STAFF_PERMISSIONS: Permission[] = [
+  "adjust_scores",
+  "edit_member_details",
+  "manage_members",
+  "manage_boards",
+  "manage_users",
+  "review_claims",
+];
+
+export const isStaff = (permissions: Permission[]) =>
+  permissions.some((permission) => STAFF_PERMISSIONS.includes(permission));
@@ -0,0 +1,40 @@
+import { Crown, Trophy, Medal, Award } from "lucide-react";
+
+export const getRankIcon = (rank: number) => {
+  switch (rank) {
+    case 1:
+      return <Crown className="w-8 h-8 text-primary animate-glow-pulse" />;
+    case 2:
+      return <Trophy className="w-7 h-7 text-secondary" />;
+    case 3:
+      return <Medal className="w-6 h-6 text-bronze" />;
+    default:
+      return <Award className="w-5 h-5 text-muted-foreground" />;
+  }
+};
+
+export const getRankStyle = (rank: number) => {
+  switch (rank) {
+    case 1:
+      return "bg-gradient-gold border-2 border-primary shadow-glow-gold animate-glow-pulse";
+    case 2:
+      return "bg-gradient-silver border-2 border-secondary shadow-glow-silver";
+    case 3:
+      return "bg-gradient-bronze border-2 border-bronze shadow-glow-bronze";
+    default:
+      return "bg-gradient-card border border-border shadow-card hover:bg-accent/20";
+  }
+};
+
+/** Ranks held by more than one member, i.e. ties under competition or dense ranking. */
+export const getTiedRanks = (members: { rank: number | null }[]) => {
+  const counts = new Map<number, number>();
+  members.forEach(({ rank }) => {
+    if (rank !== null && rank !== undefined) {
+      counts.set(rank, (counts.get(rank) ?? 0) + 1);
+    }
+  });
+  return new Set([...counts].filter(([, count]) => count > 1).map(([rank]) => rank));
+};
+
+export const formatRank = (rank: number, tied: boolean) => (tied ? `T-${rank}` : `#${rank}`);
@@ -0,0 +1,59 @@
+import type { MemberFilters, RankedMember } from "@/data";
+
+// How much of a query word's trigrams a name word must share to count as a match,
+// the same cut-off the database search uses
+const SIMILARITY_THRESHOLD = 0.3;
+
+const trigrams = (word: string) => {
+  const padded = `  ${word} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+};
+
+const similarity = (queryWord: string, nameWord: string) => {
+  const wanted = trigrams(queryWord);
+  const present = trigrams(nameWord);
+  let shared = 0;
+  wanted.forEach((trigram) => present.has(trigram) && shared++);
+  return shared / wanted.size;
+};
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Whether a name matches a search, tolerating typos: the name contains the
+ * query, or every word of the query is close to some word of the name.
+ */
+export function fuzzyMatches(name: string, query: string): boolean {
+  const trimmed = query.trim().toLowerCase();
+  if (!trimmed || name.toLowerCase().includes(trimmed)) return true;
+
+  const nameWords = words(name);
+  const queryWords = words(trimmed);
+  return (
+    queryWords.length > 0 &&
+    queryWords.every((q) => nameWords.some((w) => similarity(q, w) >= SIMILARITY_THRESHOLD))
+  );
+}
+
+/** True when any filter or a non-default sort is set. */
+export const hasMemberFilters = ({ search, minScore, maxScore, sort }: MemberFilters) =>
+  !!search?.trim() || minScore !== undefined || maxScore !== undefined || (!!sort && sort !== "rank");
+
+/** Apply filters and sorting to members that are already loaded. Input is expected in rank order. */
+export function applyMemberFilters<T extends RankedMember>(members: T[], filters: MemberFilters): T[] {
+  const { search, minScore, maxScore, sort } = filters;
+  const matching = members.filter(
+    (m) =>
+      (!search || fuzzyMatches(m.name, search)) &&
+      (minScore === undefined || m.score >= minScore) &&
+      (maxScore === undefined || m.score <= maxScore)
+  );
+
+  if (sort === "name") return [...matching].sort((a, b) => a.name.localeCompare(b.name));
+  if (sort === "updated") return [...matching].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  return matching;
+}
@@ -1,5 +1,22 @@
 import { createRoot } from 'react-dom/client'
-import App from './App.tsx'
+import ConfigError from './components/ConfigError.tsx'
+import LoadError from './components/LoadError.tsx'
+import { supabaseConfig } from './integrations/supabase/config.ts'
+import { loadBackend, usesLocalData } from './data/backend'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+const root = createRoot(document.getElementById("root")!);
+
+// Load the app, and with it the Supabase client, only once the config is usable.
+// In-browser data needs no connection settings.
+if (!usesLocalData && supabaseConfig.problems.length > 0) {
+  root.render(<ConfigError problems={supabaseConfig.problems} />);
+} else {
+  loadBackend()
+    .then(() => import('./App.tsx'))
+    .then(({ default: App }) => root.render(<App />))
+    .catch((error) => {
+      console.error('Error loading the app:', error);
+      root.render(<LoadError />);
+    });
+}
@@ -1,86 +1,35 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import AuthForm from "@/components/AuthForm";
 import AdminPanel from "@/components/AdminPanel";
 import { Button } from "@/components/ui/button";
 import { LogOut, Home } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { isStaff } from "@/lib/permissions";
+import { backend, useCurrentUser, usePermissions } from "@/data";
 
 export default function Admin() {
-  const [user, setUser] = useState<any>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const { data: user, isLoading: userLoading, refetch: refetchUser } = useCurrentUser();
+  const permissionsQuery = usePermissions();
+  const permissions = permissionsQuery.data ?? [];
+  const loading = userLoading || permissionsQuery.isLoading;
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  useEffect(() => {
-    checkAuthAndAdmin();
-    
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        if (event === 'SIGNED_IN') {
-          setUser(session?.user);
-          checkAdminStatus(session?.user);
-        } else if (event === 'SIGNED_OUT') {
-          setUser(null);
-          setIsAdmin(false);
-        }
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, []);
-
-  const checkAuthAndAdmin = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      setUser(user);
-      
-      if (user) {
-        await checkAdminStatus(user);
-      }
-    } catch (error) {
-      console.error('Error checking auth:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const denied = !!user && (permissionsQuery.isError || (permissionsQuery.isSuccess && !isStaff(permissionsQuery.data)));
 
-  const checkAdminStatus = async (currentUser: any) => {
-    if (!currentUser) return;
-    
-    try {
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', currentUser.id)
-        .eq('role', 'admin')
-        .single();
-
-      if (data) {
-        setIsAdmin(true);
-      } else {
-        setIsAdmin(false);
-        toast({
-          title: "Access Denied",
-          description: "You don't have admin privileges to access this page.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      setIsAdmin(false);
-      toast({
-        title: "Access Denied", 
-        description: "You don't have admin privileges to access this page.",
-        variant: "destructive",
-      });
-    }
-  };
+  useEffect(() => {
+    if (!denied) return;
+    toast({
+      title: "Access Denied",
+      description: "You don't have permission to manage leaderboards.",
+      variant: "destructive",
+    });
+  }, [denied, toast]);
 
   const handleSignOut = async () => {
     try {
-      await supabase.auth.signOut();
+      await backend.auth.signOut();
       toast({
         title: "Signed out",
         description: "You have been successfully signed out.",
@@ -91,7 +40,7 @@ export default function Admin() {
   };
 
   const handleAuthSuccess = () => {
-    checkAuthAndAdmin();
+    refetchUser();
   };
 
   if (loading) {
@@ -109,7 +58,7 @@ export default function Admin() {
     return <AuthForm onAuthSuccess={handleAuthSuccess} />;
   }
 
-  if (!isAdmin) {
+  if (!isStaff(permissions)) {
     return (
       <div className="min-h-screen bg-gradient-main flex items-center justify-center p-4">
         <div className="text-center max-w-md">
@@ -118,7 +67,7 @@ export default function Admin() {
           </div>
           <h1 className="text-3xl font-bold mb-4">Access Denied</h1>
           <p className="text-muted-foreground mb-6">
-            You don't have admin privileges to access this page. Please contact an administrator if you believe this is an error.
+            You don't have permission to manage leaderboards. Please contact an administrator if you believe this is an error.
           </p>
           <div className="flex gap-4 justify-center">
             <Button 
@@ -165,7 +114,7 @@ export default function Admin() {
         </Button>
       </div>
       
-      <AdminPanel />
+      <AdminPanel permissions={permissions} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import MemberAvatar from "@/components/MemberAvatar";
+import { Button } from "@/components/ui/button";
+import { CircleDollarSign, Crown, Printer, ArrowLeft, Trophy } from "lucide-react";
+import { getRankIcon, getRankStyle } from "@/lib/ranks";
+import { useBoards, usePodium } from "@/data";
+
+const PLACE_TITLES: Record<number, string> = {
+  1: "Champion",
+  2: "Runner-up",
+  3: "Third Place",
+};
+
+export default function Certificates() {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const { data: boards = [], isLoading: boardsLoading, error: boardsError } = useBoards();
+  const board = boards.find((b) => b.slug === slug);
+  const { data: winners = [], isLoading: winnersLoading, error: winnersError } = usePodium(board?.id);
+  const loading = boardsLoading || winnersLoading;
+  const boardName = board?.name ?? "";
+
+  useEffect(() => {
+    const error = boardsError || winnersError;
+    if (error) console.error('Error fetching winners:', error);
+  }, [boardsError, winnersError]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-main flex items-center justify-center">
+        <div className="text-center">
+          <Crown className="w-16 h-16 text-primary mx-auto mb-4 animate-glow-pulse" />
+          <p className="text-xl text-muted-foreground">Preparing certificates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-main text-foreground print:bg-none">
+      {/* Toolbar (hidden when printing) */}
+      <div className="container mx-auto px-4 py-6 flex justify-between print:hidden">
+        <Button
+          variant="outline"
+          onClick={() => navigate(`/b/${slug}`)}
+          className="border-border"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Leaderboard
+        </Button>
+        <Button
+          onClick={() => window.print()}
+          disabled={winners.length === 0}
+          className="bg-gradient-gold text-primary-foreground hover:scale-105 transition-transform"
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      {winners.length === 0 && (
+        <div className="text-center py-12">
+          <Trophy className="w-24 h-24 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-2xl font-bold mb-2">No Winners Yet</h3>
+          <p className="text-muted-foreground">Certificates appear once the board has members.</p>
+        </div>
+      )}
+
+      {winners.map((winner) => (
+        <section
+          key={winner.id}
+          className="certificate-page flex items-center justify-center p-8 break-after-page"
+        >
+          <Card className={`${getRankStyle(winner.rank)} relative w-full max-w-3xl overflow-hidden print:animate-none`}>
+            <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent -skew-x-12 animate-rank-shine print:hidden" />
+            <CardContent className="p-12 text-center">
+              <p className="uppercase tracking-[0.3em] text-sm font-semibold opacity-80">
+                Certificate of Achievement
+              </p>
+              <div className="relative my-8 inline-block">
+                <MemberAvatar
+                  name={winner.name}
+                  src={winner.avatar_url}
+                  className="w-32 h-32 mx-auto border-4 border-white/20"
+                  fallbackClassName="text-3xl font-bold"
+                />
+                <div className="absolute -top-2 -right-2">
+                  {getRankIcon(winner.rank)}
+                </div>
+              </div>
+              <p className="text-lg opacity-80">This certifies that</p>
+              <h1 className="text-5xl font-bold my-4">{winner.name}</h1>
+              <p className="text-lg opacity-80">
+                placed <span className="font-bold">{PLACE_TITLES[winner.rank]}</span> on {boardName}
+              </p>
+              <div className="flex items-center justify-center gap-2 mt-6">
+                <CircleDollarSign className="w-6 h-6" />
+                <span className="text-3xl font-bold">{winner.score.toLocaleString()}</span>
+              </div>
+              <p className="mt-10 text-sm opacity-70">{format(new Date(), "PPP")}</p>
+            </CardContent>
+          </Card>
+        </section>
+      ))}
+    </div>
+  );
+}
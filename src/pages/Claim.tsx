@@ -0,0 +1,80 @@
+import { useNavigate, useParams } from "react-router-dom";
+import AuthForm from "@/components/AuthForm";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Home, Ticket } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useClaimInvite, useCurrentUser } from "@/data";
+
+export default function Claim() {
+  const { code } = useParams<{ code: string }>();
+  const { data: user, isLoading: loading, refetch: refetchUser } = useCurrentUser();
+  const claimInvite = useClaimInvite();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleClaim = async () => {
+    if (!code) return;
+
+    try {
+      const result = await claimInvite.mutateAsync(code);
+      toast({
+        title: "Welcome to the board!",
+        description: "Your account is now linked to your leaderboard spot.",
+      });
+      navigate(`/b/${result.leaderboard_slug}`);
+    } catch (error) {
+      console.error('Error claiming member:', error);
+      toast({
+        title: "Could not claim",
+        description: error instanceof Error ? error.message : "This invite code is invalid or has expired",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-main flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthForm onAuthSuccess={() => refetchUser()} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-main flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-gradient-card border-border shadow-card">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Ticket className="w-8 h-8 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Claim Your Spot</CardTitle>
+          <CardDescription>
+            Link invite <span className="font-mono">{code}</span> to {user.email}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          <Button
+            onClick={handleClaim}
+            disabled={claimInvite.isPending}
+            className="bg-gradient-gold text-primary-foreground"
+          >
+            {claimInvite.isPending ? "Claiming..." : "Claim"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => navigate('/')}
+            className="border-border"
+          >
+            <Home className="w-4 h-4 mr-2" />
+            Go Home
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
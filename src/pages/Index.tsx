@@ -1,7 +1,9 @@
+import { useParams } from "react-router-dom";
 import Leaderboard from "@/components/Leaderboard";
 
 const Index = () => {
-  return <Leaderboard />;
+  const { slug } = useParams<{ slug: string }>();
+  return <Leaderboard slug={slug} />;
 };
 
 export default Index;
@@ -0,0 +1,281 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import MemberAvatar from "@/components/MemberAvatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Pencil, TrendingUp, Trophy, User } from "lucide-react";
+import ProfileEditDialog from "@/components/ProfileEditDialog";
+import { describeBadgeRule, getBadgeIcon } from "@/lib/badges";
+import { formatRank, getRankIcon } from "@/lib/ranks";
+import { useBoards, useCurrentUser, useMemberBadges, useProfile, useScoreHistory, type AwardedBadge, type Member } from "@/data";
+
+interface Achievement {
+  id: string;
+  label: string;
+  description: string;
+  icon: string;
+}
+
+const chartConfig = {
+  score: {
+    label: "Score",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+// Badges for every board can be earned once per board; they are listed once with a count
+const getAchievements = (earned: AwardedBadge[]): Achievement[] => {
+  const byBadge = new Map<string, AwardedBadge[]>();
+  earned.forEach((award) => byBadge.set(award.badge_id, [...(byBadge.get(award.badge_id) ?? []), award]));
+
+  return [...byBadge].map(([badgeId, awards]) => {
+    const { badge, awarded_at } = awards[0];
+    return {
+      id: badgeId,
+      label: awards.length > 1 ? `${awards.length}× ${badge.name}` : badge.name,
+      description: `${badge.description || describeBadgeRule(badge)} · Earned ${format(new Date(awarded_at), "PP")}`,
+      icon: badge.icon,
+    };
+  });
+};
+
+export default function Profile() {
+  const { id } = useParams<{ id: string }>();
+  const [chartMemberId, setChartMemberId] = useState("");
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const { data: currentUser } = useCurrentUser();
+  const currentUserId = currentUser?.id ?? null;
+  const navigate = useNavigate();
+  const { data: profile, isLoading: loading, error } = useProfile(id);
+  const { data: boards = [] } = useBoards();
+  const entries = profile?.members ?? [];
+  const standings = profile?.standings ?? [];
+  const { data: earnedBadges = [] } = useMemberBadges(entries.map((entry) => entry.id));
+  const primary = entries.find((entry) => entry.id === id) ?? entries[0];
+  // The chart starts on the member the profile was opened from
+  const chartedId = entries.some((entry) => entry.id === chartMemberId) ? chartMemberId : primary?.id;
+  const { data: scoreEvents = [] } = useScoreHistory(chartedId);
+
+  useEffect(() => {
+    if (error) console.error('Error fetching profile:', error);
+  }, [error]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-main flex items-center justify-center">
+        <div className="text-center">
+          <User className="w-16 h-16 text-primary mx-auto mb-4 animate-glow-pulse" />
+          <p className="text-xl text-muted-foreground">Loading Profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!primary) {
+    return (
+      <div className="min-h-screen bg-gradient-main flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <User className="w-24 h-24 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-3xl font-bold mb-4">Player Not Found</h1>
+          <p className="text-muted-foreground mb-6">This player does not exist or is not visible to you.</p>
+          <Button onClick={() => navigate('/')} variant="outline" className="border-border">
+            Go Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwnProfile = !!currentUserId && primary.profile_id === currentUserId;
+  const currentRanks = entries.map((entry) => entry.rank).filter((rank): rank is number => rank !== null);
+  // Members closed out unranked are stored with rank 0
+  const bestRank = Math.min(...currentRanks, ...standings.map((s) => s.rank).filter((rank) => rank > 0));
+  const achievements = getAchievements(earnedBadges);
+  const boardOf = (entry: Member) => boards.find((board) => board.id === entry.leaderboard_id);
+  const primaryBoard = boardOf(primary);
+  // History comes newest first; the chart runs left to right
+  const chartData = [...scoreEvents]
+    .reverse()
+    .map((event) => ({ date: event.created_at, score: event.new_score }));
+
+  return (
+    <div className="min-h-screen bg-gradient-main text-foreground">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Button
+          variant="outline"
+          onClick={() => navigate(primaryBoard ? `/b/${primaryBoard.slug}` : '/')}
+          className="border-border mb-8"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Leaderboard
+        </Button>
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-center gap-6 mb-8">
+          <MemberAvatar
+            name={primary.name}
+            src={primary.avatar_url}
+            className="w-28 h-28 border-4 border-primary/40"
+            fallbackClassName="text-3xl font-bold"
+          />
+          <div className="flex-1 text-center md:text-left">
+            <h1 className="text-4xl font-bold bg-gradient-gold bg-clip-text text-transparent">
+              {primary.name}
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {Number.isFinite(bestRank) ? `Best-ever rank ${formatRank(bestRank, false)}` : "Not ranked yet"}
+              {` · ${entries.length} ${entries.length === 1 ? "board" : "boards"}`}
+            </p>
+          </div>
+          {isOwnProfile && (
+            <Button
+              onClick={() => setIsEditOpen(true)}
+              className="bg-gradient-gold text-primary-foreground"
+            >
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit Profile
+            </Button>
+          )}
+        </div>
+
+        {/* Boards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+          {entries.map((entry) => {
+            const board = boardOf(entry);
+            return (
+              <Card
+                key={entry.id}
+                onClick={() => board && navigate(`/b/${board.slug}`)}
+                className="bg-gradient-card border-border shadow-card cursor-pointer hover:bg-accent/20 transition-colors"
+              >
+                <CardContent className="p-6 flex items-center gap-4">
+                  <div className="flex items-center justify-center w-10 h-10">
+                    {entry.rank !== null && getRankIcon(entry.rank)}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold truncate">{board?.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {entry.rank !== null ? `Rank ${formatRank(entry.rank, false)}` : "Unranked"}
+                    </p>
+                  </div>
+                  <span className="text-xl font-bold text-warning">{entry.score.toLocaleString()}</span>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Score history */}
+        <Card className="bg-gradient-card border-border shadow-card mb-8">
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="w-5 h-5 text-primary" />
+              Score History
+            </CardTitle>
+            {entries.length > 1 && (
+              <Select value={chartedId} onValueChange={setChartMemberId}>
+                <SelectTrigger className="w-56 bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {entries.map((entry) => (
+                    <SelectItem key={entry.id} value={entry.id}>
+                      {boardOf(entry)?.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardHeader>
+          <CardContent>
+            {chartData.length > 0 ? (
+              <ChartContainer config={chartConfig} className="h-64 w-full">
+                <LineChart data={chartData} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => format(new Date(value), "MMM d")}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) =>
+                          payload?.[0] ? format(new Date(payload[0].payload.date), "PP p") : ""
+                        }
+                      />
+                    }
+                  />
+                  <Line
+                    type="stepAfter"
+                    dataKey="score"
+                    stroke="var(--color-score)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-center text-muted-foreground py-12">No score changes yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Achievements */}
+        <Card className="bg-gradient-card border-border shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-primary" />
+              Achievements
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {achievements.length > 0 ? (
+              <div className="flex flex-wrap gap-3">
+                {achievements.map(({ id, label, description, icon }) => {
+                  const Icon = getBadgeIcon(icon);
+                  return (
+                    <Badge key={id} variant="secondary" className="flex items-center gap-2 px-3 py-2" title={description}>
+                      <Icon className="w-4 h-4 text-primary" />
+                      {label}
+                    </Badge>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-center text-muted-foreground py-6">No achievements yet. Keep climbing!</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {isOwnProfile && (
+        <ProfileEditDialog
+          members={entries.filter((entry) => entry.profile_id === currentUserId)}
+          name={primary.name}
+          avatarUrl={primary.avatar_url}
+          open={isEditOpen}
+          onOpenChange={setIsEditOpen}
+        />
+      )}
+    </div>
+  );
+}
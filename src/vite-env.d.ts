@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  /** The anon (publishable) key; never the service role key */
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY?: string;
+  /** "supabase" (default) or "local" for in-browser data that works offline */
+  readonly VITE_DATA_BACKEND?: "supabase" | "local";
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
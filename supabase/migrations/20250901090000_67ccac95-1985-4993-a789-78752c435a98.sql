@@ -0,0 +1,98 @@
+-- Create enum for how a board orders its scores
+CREATE TYPE public.scoring_direction AS ENUM ('higher_wins', 'lower_wins');
+
+-- Create leaderboards table so several competitions can run side by side
+CREATE TABLE public.leaderboards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  description TEXT,
+  scoring_direction scoring_direction NOT NULL DEFAULT 'higher_wins',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.leaderboards ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_leaderboards_updated_at
+  BEFORE UPDATE ON public.leaderboards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for leaderboards
+CREATE POLICY "Everyone can view leaderboards" ON public.leaderboards
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage leaderboards" ON public.leaderboards
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Move existing members onto a default board
+INSERT INTO public.leaderboards (name, slug, description)
+VALUES ('Skill Up', 'main', 'Compete for glory and climb to the top!');
+
+ALTER TABLE public.leaderboard_members
+  ADD COLUMN leaderboard_id UUID REFERENCES public.leaderboards(id) ON DELETE CASCADE;
+
+UPDATE public.leaderboard_members
+SET leaderboard_id = (SELECT id FROM public.leaderboards WHERE slug = 'main');
+
+ALTER TABLE public.leaderboard_members
+  ALTER COLUMN leaderboard_id SET NOT NULL;
+
+CREATE INDEX idx_leaderboard_members_leaderboard_score
+  ON public.leaderboard_members (leaderboard_id, score DESC);
+
+-- Rank members within their own board, honouring its scoring direction
+CREATE OR REPLACE FUNCTION public.update_leaderboard_ranks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- The UPDATE below fires this trigger again; only the outer call does work
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      m.id,
+      ROW_NUMBER() OVER (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC,
+          m.created_at ASC
+      ) AS new_rank
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+  ) AS ranked
+  WHERE leaderboard_members.id = ranked.id
+    AND leaderboard_members.rank IS DISTINCT FROM ranked.new_rank;
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_ranks_on_score_change ON public.leaderboard_members;
+
+CREATE TRIGGER update_ranks_on_score_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.leaderboard_members
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.update_leaderboard_ranks();
+
+-- Changing a board's direction reorders all of its members
+CREATE TRIGGER update_ranks_on_direction_change
+  AFTER UPDATE OF scoring_direction ON public.leaderboards
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.update_leaderboard_ranks();
+
+-- Recompute ranks for the existing data
+UPDATE public.leaderboard_members SET rank = NULL;
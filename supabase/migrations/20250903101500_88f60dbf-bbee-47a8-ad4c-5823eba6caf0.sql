@@ -0,0 +1,136 @@
+-- Create enum for how a score event changes a member's score
+CREATE TYPE public.score_event_kind AS ENUM ('delta', 'absolute');
+
+-- Append-only ledger of every score change
+CREATE TABLE public.score_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID REFERENCES public.leaderboard_members(id) ON DELETE CASCADE NOT NULL,
+  kind score_event_kind NOT NULL,
+  value INTEGER NOT NULL,
+  previous_score INTEGER NOT NULL DEFAULT 0,
+  new_score INTEGER NOT NULL DEFAULT 0,
+  reason TEXT,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_score_events_member_created
+  ON public.score_events (member_id, created_at DESC);
+
+ALTER TABLE public.score_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for score_events (no UPDATE or DELETE policies: the ledger is append-only)
+CREATE POLICY "Everyone can view score events" ON public.score_events
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can record score events" ON public.score_events
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.prevent_score_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  RAISE EXCEPTION 'score_events is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_score_events_update
+  BEFORE UPDATE ON public.score_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_score_event_update();
+
+-- Apply a new event to its member so the stored score always matches the ledger
+CREATE OR REPLACE FUNCTION public.apply_score_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  current_score INTEGER;
+BEGIN
+  -- Events written by log_direct_score_change already describe the member row
+  IF current_setting('app.applying_score_event', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT score INTO current_score
+  FROM public.leaderboard_members
+  WHERE id = NEW.member_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leaderboard member % does not exist', NEW.member_id;
+  END IF;
+
+  NEW.previous_score := current_score;
+  NEW.new_score := CASE NEW.kind
+    WHEN 'delta' THEN current_score + NEW.value
+    ELSE NEW.value
+  END;
+
+  PERFORM set_config('app.applying_score_event', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET score = NEW.new_score
+  WHERE id = NEW.member_id;
+
+  PERFORM set_config('app.applying_score_event', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_score_event_on_insert
+  BEFORE INSERT ON public.score_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_score_event();
+
+-- Record scores written straight to leaderboard_members so the ledger stays complete
+CREATE OR REPLACE FUNCTION public.log_direct_score_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_setting('app.applying_score_event', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.score = OLD.score THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.applying_score_event', 'on', true);
+
+  INSERT INTO public.score_events (member_id, kind, value, previous_score, new_score, reason)
+  VALUES (
+    NEW.id,
+    'absolute',
+    NEW.score,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.score ELSE 0 END,
+    NEW.score,
+    CASE WHEN TG_OP = 'UPDATE' THEN 'Score edited' ELSE 'Initial score' END
+  );
+
+  PERFORM set_config('app.applying_score_event', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_score_change_on_member
+  AFTER INSERT OR UPDATE OF score ON public.leaderboard_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_direct_score_change();
+
+-- Opening balance for members that existed before the ledger
+SELECT set_config('app.applying_score_event', 'on', true);
+
+INSERT INTO public.score_events (member_id, kind, value, previous_score, new_score, reason, actor_id, created_at)
+SELECT id, 'absolute', score, 0, score, 'Opening balance', NULL, updated_at
+FROM public.leaderboard_members;
+
+SELECT set_config('app.applying_score_event', 'off', true);
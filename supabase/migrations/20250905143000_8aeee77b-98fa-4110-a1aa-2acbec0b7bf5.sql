@@ -0,0 +1,5 @@
+-- Broadcast leaderboard changes to subscribed clients
+-- Full replica identity so DELETE payloads carry the whole old row
+ALTER TABLE public.leaderboard_members REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.leaderboard_members;
@@ -0,0 +1,137 @@
+-- Seasons split a board's history into periods that can be closed and archived
+CREATE TABLE public.seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leaderboard_id UUID REFERENCES public.leaderboards(id) ON DELETE CASCADE NOT NULL,
+  number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  carry_over_percent INTEGER NOT NULL DEFAULT 0 CHECK (carry_over_percent BETWEEN 0 AND 100),
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (leaderboard_id, number)
+);
+
+-- Only one open season per board
+CREATE UNIQUE INDEX idx_seasons_one_open_per_board
+  ON public.seasons (leaderboard_id)
+  WHERE ended_at IS NULL;
+
+-- Frozen standings captured when a season is closed
+CREATE TABLE public.season_standings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID REFERENCES public.seasons(id) ON DELETE CASCADE NOT NULL,
+  member_id UUID REFERENCES public.leaderboard_members(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  avatar_url TEXT,
+  score INTEGER NOT NULL,
+  rank INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_season_standings_season_rank
+  ON public.season_standings (season_id, rank);
+
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.season_standings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for seasons
+CREATE POLICY "Everyone can view seasons" ON public.seasons
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage seasons" ON public.seasons
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for season_standings (written only by close_season)
+CREATE POLICY "Everyone can view season standings" ON public.season_standings
+  FOR SELECT USING (true);
+
+-- Every board starts with an open first season
+CREATE OR REPLACE FUNCTION public.create_initial_season()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.seasons (leaderboard_id, number, name, started_at)
+  VALUES (NEW.id, 1, 'Season 1', NEW.created_at);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_initial_season_on_board
+  AFTER INSERT ON public.leaderboards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_initial_season();
+
+INSERT INTO public.seasons (leaderboard_id, number, name, started_at)
+SELECT id, 1, 'Season 1', created_at
+FROM public.leaderboards;
+
+-- Close the open season: snapshot standings, then open the next season with
+-- each score reset to the given percentage of its final value
+CREATE OR REPLACE FUNCTION public.close_season(
+  _leaderboard_id UUID,
+  _carry_over_percent INTEGER DEFAULT 0,
+  _next_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  closing public.seasons%ROWTYPE;
+  next_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close seasons';
+  END IF;
+
+  IF _carry_over_percent < 0 OR _carry_over_percent > 100 THEN
+    RAISE EXCEPTION 'Carry-over must be between 0 and 100 percent';
+  END IF;
+
+  SELECT * INTO closing
+  FROM public.seasons
+  WHERE leaderboard_id = _leaderboard_id
+    AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leaderboard % has no open season', _leaderboard_id;
+  END IF;
+
+  INSERT INTO public.season_standings (season_id, member_id, name, avatar_url, score, rank)
+  SELECT closing.id, m.id, m.name, m.avatar_url, m.score, COALESCE(m.rank, 0)
+  FROM public.leaderboard_members m
+  WHERE m.leaderboard_id = _leaderboard_id;
+
+  UPDATE public.seasons
+  SET ended_at = now()
+  WHERE id = closing.id;
+
+  INSERT INTO public.seasons (leaderboard_id, number, name, carry_over_percent)
+  VALUES (
+    _leaderboard_id,
+    closing.number + 1,
+    COALESCE(NULLIF(trim(_next_name), ''), 'Season ' || (closing.number + 1)),
+    _carry_over_percent
+  )
+  RETURNING id INTO next_id;
+
+  -- Reset through the ledger so every member's history explains the new score
+  INSERT INTO public.score_events (member_id, kind, value, reason)
+  SELECT
+    m.id,
+    'absolute',
+    ROUND(m.score * _carry_over_percent / 100.0)::INTEGER,
+    closing.name || ' closed (' || _carry_over_percent || '% carried over)'
+  FROM public.leaderboard_members m
+  WHERE m.leaderboard_id = _leaderboard_id;
+
+  RETURN next_id;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- Ranks are owned by refresh_leaderboard_ranks(); ignore any rank a client sends
+CREATE OR REPLACE FUNCTION public.protect_leaderboard_rank()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.rank := NULL;
+  ELSE
+    NEW.rank := OLD.rank;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_rank_on_member_write
+  BEFORE INSERT OR UPDATE ON public.leaderboard_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_leaderboard_rank();
+
+CREATE INDEX idx_leaderboard_members_leaderboard_rank
+  ON public.leaderboard_members (leaderboard_id, rank);
+
+-- Bring every stored rank in line with the authoritative ordering
+SELECT public.refresh_leaderboard_ranks();
@@ -0,0 +1,94 @@
+-- How equal scores are ranked: "1,2,2,4", "1,2,2,3" or always unique
+CREATE TYPE public.rank_style AS ENUM ('competition', 'dense', 'ordinal');
+
+-- What separates equal scores when ranks must be unique
+CREATE TYPE public.tie_breaker AS ENUM ('earliest_to_score', 'secondary_score', 'joined_first');
+
+ALTER TABLE public.leaderboards
+  ADD COLUMN rank_style rank_style NOT NULL DEFAULT 'competition',
+  ADD COLUMN tie_breaker tie_breaker NOT NULL DEFAULT 'earliest_to_score';
+
+ALTER TABLE public.leaderboard_members
+  ADD COLUMN secondary_score INTEGER,
+  ADD COLUMN score_reached_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL;
+
+UPDATE public.leaderboard_members SET score_reached_at = updated_at;
+
+-- Remember when each member reached their current score
+CREATE OR REPLACE FUNCTION public.track_score_reached_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.score IS DISTINCT FROM OLD.score THEN
+    NEW.score_reached_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_score_reached_at_on_member
+  BEFORE UPDATE OF score ON public.leaderboard_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_score_reached_at();
+
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_ranks()
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- The UPDATE below fires the rank trigger again; only the outer call does work
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      m.id,
+      CASE b.rank_style
+        WHEN 'competition' THEN RANK() OVER by_score
+        WHEN 'dense' THEN DENSE_RANK() OVER by_score
+        ELSE ROW_NUMBER() OVER by_score_and_tie_breaker
+      END AS new_rank
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+    WINDOW
+      by_score AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC
+      ),
+      by_score_and_tie_breaker AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC,
+          CASE WHEN b.tie_breaker = 'earliest_to_score' THEN m.score_reached_at END ASC,
+          CASE WHEN b.tie_breaker = 'secondary_score' THEN m.secondary_score END DESC NULLS LAST,
+          m.created_at ASC
+      )
+  ) AS ranked
+  WHERE leaderboard_members.id = ranked.id
+    AND leaderboard_members.rank IS DISTINCT FROM ranked.new_rank;
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+END;
+$$;
+
+-- Re-rank a board whenever any of its ranking settings change
+DROP TRIGGER IF EXISTS update_ranks_on_direction_change ON public.leaderboards;
+
+CREATE TRIGGER update_ranks_on_ranking_change
+  AFTER UPDATE OF scoring_direction, rank_style, tie_breaker ON public.leaderboards
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.update_leaderboard_ranks();
+
+SELECT public.refresh_leaderboard_ranks();
@@ -0,0 +1,61 @@
+-- Audit trail of every change made to members and roles
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_audit_log_created ON public.audit_log (created_at DESC);
+CREATE INDEX idx_audit_log_table_record ON public.audit_log (table_name, record_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for audit_log (rows are only written by record_audit_log)
+CREATE POLICY "Admins can view audit log" ON public.audit_log
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Rank recalculation touches every row on a board; it is not a user action
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND to_jsonb(NEW) = to_jsonb(OLD) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, actor_id, before, after)
+  VALUES (
+    TG_TABLE_NAME,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    TG_OP,
+    auth.uid(),
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_leaderboard_members
+  AFTER INSERT OR UPDATE OR DELETE ON public.leaderboard_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
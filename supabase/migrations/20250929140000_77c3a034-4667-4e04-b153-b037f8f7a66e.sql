@@ -0,0 +1,34 @@
+-- Never allow the last admin to lose admin access, otherwise nobody can
+-- manage roles again without going to SQL
+CREATE OR REPLACE FUNCTION public.protect_last_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.role <> 'admin' OR (TG_OP = 'UPDATE' AND NEW.role = 'admin') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Serialise concurrent demotions so two admins cannot remove each other
+  PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE role = 'admin'
+      AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'Cannot remove the last admin'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_last_admin
+  BEFORE UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_last_admin();
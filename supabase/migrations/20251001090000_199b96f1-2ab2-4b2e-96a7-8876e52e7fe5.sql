@@ -0,0 +1,19 @@
+-- New roles for event staff. Enum values cannot be used in the transaction
+-- that adds them, so the policies that rely on them live in the next migration.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'moderator';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'scorekeeper';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'viewer';
+
+-- Create enum for the individual actions a role can grant
+CREATE TYPE public.app_permission AS ENUM (
+  'view_private_boards',
+  'adjust_scores',
+  'edit_member_details',
+  'manage_members',
+  'manage_boards',
+  'manage_users'
+);
+
+-- Private boards are hidden from anyone without view_private_boards
+ALTER TABLE public.leaderboards
+  ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false;
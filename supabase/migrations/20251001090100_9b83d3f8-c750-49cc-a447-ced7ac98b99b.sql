@@ -0,0 +1,157 @@
+-- Fixed mapping of roles to permissions; changed only through migrations
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission app_permission NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view role permissions" ON public.role_permissions
+  FOR SELECT USING (true);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'view_private_boards'),
+  ('admin', 'adjust_scores'),
+  ('admin', 'edit_member_details'),
+  ('admin', 'manage_members'),
+  ('admin', 'manage_boards'),
+  ('admin', 'manage_users'),
+  ('moderator', 'view_private_boards'),
+  ('moderator', 'edit_member_details'),
+  ('scorekeeper', 'view_private_boards'),
+  ('scorekeeper', 'adjust_scores'),
+  ('viewer', 'view_private_boards');
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id
+      AND rp.permission = _permission
+  )
+$$;
+
+-- Permissions of the signed-in user, for hiding actions in the UI
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS app_permission[]
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT rp.permission), '{}')
+  FROM public.user_roles ur
+  JOIN public.role_permissions rp ON rp.role = ur.role
+  WHERE ur.user_id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_leaderboard(_leaderboard_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.leaderboards
+    WHERE id = _leaderboard_id
+      AND (NOT is_private OR public.has_permission(auth.uid(), 'view_private_boards'))
+  )
+$$;
+
+-- Private boards and everything on them are only visible with view_private_boards
+DROP POLICY "Everyone can view leaderboards" ON public.leaderboards;
+CREATE POLICY "Everyone can view public leaderboards" ON public.leaderboards
+  FOR SELECT
+  USING (NOT is_private OR public.has_permission(auth.uid(), 'view_private_boards'));
+
+DROP POLICY "Everyone can view leaderboard" ON public.leaderboard_members;
+CREATE POLICY "Everyone can view members of visible boards" ON public.leaderboard_members
+  FOR SELECT TO authenticated
+  USING (public.can_view_leaderboard(leaderboard_id));
+
+DROP POLICY "Everyone can view seasons" ON public.seasons;
+CREATE POLICY "Everyone can view seasons of visible boards" ON public.seasons
+  FOR SELECT
+  USING (public.can_view_leaderboard(leaderboard_id));
+
+DROP POLICY "Everyone can view season standings" ON public.season_standings;
+CREATE POLICY "Everyone can view standings of visible boards" ON public.season_standings
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM public.seasons s
+    WHERE s.id = season_id
+      AND public.can_view_leaderboard(s.leaderboard_id)
+  ));
+
+DROP POLICY "Everyone can view score events" ON public.score_events;
+CREATE POLICY "Everyone can view score events of visible boards" ON public.score_events
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM public.leaderboard_members m
+    WHERE m.id = member_id
+      AND public.can_view_leaderboard(m.leaderboard_id)
+  ));
+
+-- Scorekeepers adjust scores through the ledger
+DROP POLICY "Admins can record score events" ON public.score_events;
+CREATE POLICY "Scorekeepers can record score events" ON public.score_events
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_permission(auth.uid(), 'adjust_scores'));
+
+-- Row-level access for staff edits; column-level limits are enforced below
+CREATE POLICY "Staff can update members" ON public.leaderboard_members
+  FOR UPDATE TO authenticated
+  USING (
+    public.has_permission(auth.uid(), 'adjust_scores')
+    OR public.has_permission(auth.uid(), 'edit_member_details')
+  );
+
+CREATE OR REPLACE FUNCTION public.enforce_member_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Rank refreshes and server-side jobs are not user edits
+  IF current_setting('app.updating_ranks', true) = 'on' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.name IS DISTINCT FROM OLD.name OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND NOT public.has_permission(auth.uid(), 'edit_member_details') THEN
+    RAISE EXCEPTION 'You do not have permission to edit member details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.score IS DISTINCT FROM OLD.score OR NEW.secondary_score IS DISTINCT FROM OLD.secondary_score)
+    AND NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.leaderboard_id IS DISTINCT FROM OLD.leaderboard_id OR NEW.external_id IS DISTINCT FROM OLD.external_id)
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_member_permissions
+  BEFORE UPDATE ON public.leaderboard_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_member_permissions();
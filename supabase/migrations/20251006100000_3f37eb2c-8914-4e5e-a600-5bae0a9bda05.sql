@@ -0,0 +1,135 @@
+-- Optional link from a member row to the account of the person it represents
+ALTER TABLE public.leaderboard_members
+  ADD COLUMN profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- A person appears at most once on each board
+CREATE UNIQUE INDEX idx_leaderboard_members_board_profile
+  ON public.leaderboard_members (leaderboard_id, profile_id)
+  WHERE profile_id IS NOT NULL;
+
+-- One-time codes an admin hands out so a person can claim their member row
+CREATE TABLE public.member_invites (
+  code TEXT PRIMARY KEY DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)),
+  member_id UUID REFERENCES public.leaderboard_members(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT now() + INTERVAL '14 days' NOT NULL,
+  claimed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_member_invites_member ON public.member_invites (member_id);
+
+ALTER TABLE public.member_invites ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for member_invites (claimed only through claim_member)
+CREATE POLICY "Member managers can manage invites" ON public.member_invites
+  FOR ALL TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_members'));
+
+-- Linking accounts is a member-management action, except when claiming an invite
+CREATE OR REPLACE FUNCTION public.enforce_member_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Rank refreshes and server-side jobs are not user edits
+  IF current_setting('app.updating_ranks', true) = 'on' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.name IS DISTINCT FROM OLD.name OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND NOT public.has_permission(auth.uid(), 'edit_member_details') THEN
+    RAISE EXCEPTION 'You do not have permission to edit member details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.score IS DISTINCT FROM OLD.score OR NEW.secondary_score IS DISTINCT FROM OLD.secondary_score)
+    AND NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.leaderboard_id IS DISTINCT FROM OLD.leaderboard_id OR NEW.external_id IS DISTINCT FROM OLD.external_id)
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    AND current_setting('app.claiming_member', true) IS DISTINCT FROM 'on'
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to link member accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Redeem an invite code, linking its member row to the signed-in user
+CREATE OR REPLACE FUNCTION public.claim_member(_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invite public.member_invites%ROWTYPE;
+  member public.leaderboard_members%ROWTYPE;
+  board_slug TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim a member'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO invite
+  FROM public.member_invites
+  WHERE code = upper(trim(_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR invite.claimed_at IS NOT NULL OR invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite code is invalid or has expired';
+  END IF;
+
+  SELECT * INTO member
+  FROM public.leaderboard_members
+  WHERE id = invite.member_id
+  FOR UPDATE;
+
+  IF member.profile_id IS NOT NULL AND member.profile_id <> auth.uid() THEN
+    RAISE EXCEPTION 'This member is already linked to another account';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.leaderboard_members
+    WHERE leaderboard_id = member.leaderboard_id
+      AND profile_id = auth.uid()
+      AND id <> member.id
+  ) THEN
+    RAISE EXCEPTION 'Your account is already linked to another member on this board';
+  END IF;
+
+  PERFORM set_config('app.claiming_member', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET profile_id = auth.uid()
+  WHERE id = member.id;
+
+  PERFORM set_config('app.claiming_member', 'off', true);
+
+  UPDATE public.member_invites
+  SET claimed_by = auth.uid(),
+      claimed_at = now()
+  WHERE code = invite.code;
+
+  SELECT slug INTO board_slug
+  FROM public.leaderboards
+  WHERE id = member.leaderboard_id;
+
+  RETURN jsonb_build_object('member_id', member.id, 'leaderboard_slug', board_slug);
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Keep names displayable now that linked users can edit their own
+ALTER TABLE public.leaderboard_members
+  ADD CONSTRAINT leaderboard_members_name_length
+  CHECK (char_length(btrim(name)) BETWEEN 1 AND 100) NOT VALID;
+
+-- Linked users may update their own member row; the trigger below limits them
+-- to their display name and avatar
+CREATE POLICY "Linked users can update their own member" ON public.leaderboard_members
+  FOR UPDATE TO authenticated
+  USING (profile_id = auth.uid())
+  WITH CHECK (profile_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.enforce_member_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Rank refreshes and server-side jobs are not user edits
+  IF current_setting('app.updating_ranks', true) = 'on' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.name IS DISTINCT FROM OLD.name OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND OLD.profile_id IS DISTINCT FROM auth.uid()
+    AND NOT public.has_permission(auth.uid(), 'edit_member_details') THEN
+    RAISE EXCEPTION 'You do not have permission to edit member details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.score IS DISTINCT FROM OLD.score OR NEW.secondary_score IS DISTINCT FROM OLD.secondary_score)
+    AND NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.leaderboard_id IS DISTINCT FROM OLD.leaderboard_id OR NEW.external_id IS DISTINCT FROM OLD.external_id)
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    AND current_setting('app.claiming_member', true) IS DISTINCT FROM 'on'
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to link member accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
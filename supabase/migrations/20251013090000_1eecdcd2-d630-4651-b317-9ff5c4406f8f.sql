@@ -0,0 +1,53 @@
+-- Public bucket for member avatars, stored as members/<member id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 1048576, ARRAY['image/webp', 'image/png', 'image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Staff who edit or manage members may change any avatar; linked users only their own
+CREATE OR REPLACE FUNCTION public.can_edit_member_avatar(_object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  folder TEXT[] := storage.foldername(_object_name);
+BEGIN
+  IF folder[1] IS DISTINCT FROM 'members'
+    OR folder[2] !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.has_permission(auth.uid(), 'edit_member_details')
+    OR public.has_permission(auth.uid(), 'manage_members')
+    OR EXISTS (
+      SELECT 1
+      FROM public.leaderboard_members
+      WHERE id = folder[2]::UUID
+        AND profile_id = auth.uid()
+    );
+END;
+$$;
+
+-- RLS Policies for avatar objects
+CREATE POLICY "Everyone can view avatars" ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Member editors can upload avatars" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND public.can_edit_member_avatar(name));
+
+CREATE POLICY "Member editors can replace avatars" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (bucket_id = 'avatars' AND public.can_edit_member_avatar(name));
+
+CREATE POLICY "Member editors can delete avatars" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'avatars' AND public.can_edit_member_avatar(name));
+
+-- The seed members pointed at external stock photos; fall back to generated avatars
+UPDATE public.leaderboard_members
+SET avatar_url = NULL
+WHERE avatar_url LIKE 'https://images.unsplash.com/%';
@@ -0,0 +1,6 @@
+-- Reviewing score claims is its own permission; the policies using it are in
+-- the next migration because new enum values cannot be used in this transaction
+ALTER TYPE public.app_permission ADD VALUE IF NOT EXISTS 'review_claims';
+
+-- Create enum for where a score claim is in review
+CREATE TYPE public.claim_status AS ENUM ('pending', 'approved', 'rejected');
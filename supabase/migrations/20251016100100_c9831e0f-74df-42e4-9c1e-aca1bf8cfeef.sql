@@ -0,0 +1,125 @@
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'review_claims');
+
+-- Score changes reported by players or scorekeepers, waiting for review
+CREATE TABLE public.score_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID REFERENCES public.leaderboard_members(id) ON DELETE CASCADE NOT NULL,
+  kind score_event_kind NOT NULL DEFAULT 'delta',
+  value INTEGER NOT NULL,
+  note TEXT,
+  evidence_path TEXT,
+  status claim_status NOT NULL DEFAULT 'pending',
+  submitted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_score_claims_status_created ON public.score_claims (status, created_at);
+CREATE INDEX idx_score_claims_member ON public.score_claims (member_id);
+
+ALTER TABLE public.score_claims ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for score_claims (reviewed only through review_score_claim)
+CREATE POLICY "Users can view their own claims" ON public.score_claims
+  FOR SELECT TO authenticated
+  USING (submitted_by = auth.uid());
+
+CREATE POLICY "Reviewers can view all claims" ON public.score_claims
+  FOR SELECT TO authenticated
+  USING (public.has_permission(auth.uid(), 'review_claims'));
+
+CREATE POLICY "Users can submit claims for visible members" ON public.score_claims
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    submitted_by = auth.uid()
+    AND status = 'pending'
+    AND reviewed_by IS NULL
+    AND EXISTS (
+      SELECT 1
+      FROM public.leaderboard_members m
+      WHERE m.id = member_id
+        AND public.can_view_leaderboard(m.leaderboard_id)
+    )
+  );
+
+-- Approved claims are linked from the ledger entry they produced
+ALTER TABLE public.score_events
+  ADD COLUMN claim_id UUID REFERENCES public.score_claims(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_score_events_claim
+  ON public.score_events (claim_id)
+  WHERE claim_id IS NOT NULL;
+
+-- Approve or reject a pending claim; approval records the score change in the
+-- same transaction so a claim is never approved without its ledger entry
+CREATE OR REPLACE FUNCTION public.review_score_claim(_claim_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  claim public.score_claims%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'review_claims') THEN
+    RAISE EXCEPTION 'Only reviewers can review score claims'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO claim
+  FROM public.score_claims
+  WHERE id = _claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Score claim % does not exist', _claim_id;
+  END IF;
+
+  IF claim.status <> 'pending' THEN
+    RAISE EXCEPTION 'This claim has already been %', claim.status;
+  END IF;
+
+  IF _approve THEN
+    INSERT INTO public.score_events (member_id, kind, value, reason, claim_id)
+    VALUES (
+      claim.member_id,
+      claim.kind,
+      claim.value,
+      COALESCE(NULLIF(btrim(claim.note), ''), 'Approved score claim'),
+      claim.id
+    );
+  END IF;
+
+  UPDATE public.score_claims
+  SET status = CASE WHEN _approve THEN 'approved'::public.claim_status ELSE 'rejected'::public.claim_status END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(_note), '')
+  WHERE id = claim.id;
+END;
+$$;
+
+-- Private bucket for claim evidence, stored as <submitter id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('claim-evidence', 'claim-evidence', false, 5242880)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own claim evidence" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'claim-evidence'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Submitters and reviewers can view claim evidence" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'claim-evidence'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::TEXT
+      OR public.has_permission(auth.uid(), 'review_claims')
+    )
+  );
@@ -0,0 +1,6 @@
+-- The leaderboard pages through members by (rank, id), so the index has to
+-- cover both to serve each page without sorting the whole board
+CREATE INDEX idx_leaderboard_members_leaderboard_rank_id
+  ON public.leaderboard_members (leaderboard_id, rank, id);
+
+DROP INDEX IF EXISTS public.idx_leaderboard_members_leaderboard_rank;
@@ -0,0 +1,19 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Members of a board whose name contains the query or has a word close to it,
+-- so searches survive typos. Runs as the caller, so row level security still
+-- decides which boards can be searched; callers filter, sort and page the result.
+CREATE OR REPLACE FUNCTION public.search_leaderboard_members(_leaderboard_id UUID, _query TEXT)
+RETURNS SETOF public.leaderboard_members
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT m.*
+  FROM public.leaderboard_members m
+  WHERE m.leaderboard_id = _leaderboard_id
+    AND (
+      m.name ILIKE '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      OR extensions.word_similarity(lower(_query), lower(m.name)) >= 0.3
+    );
+$$;
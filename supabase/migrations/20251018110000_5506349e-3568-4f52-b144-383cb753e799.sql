@@ -0,0 +1,141 @@
+-- Bulk member operations from the admin panel. Each runs in one transaction:
+-- either every selected member changes or none do, and ranks are refreshed
+-- once at the end instead of after every row.
+
+-- Raise unless every id still refers to a member
+CREATE OR REPLACE FUNCTION public.assert_members_exist(_member_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+BEGIN
+  IF COALESCE(array_length(_member_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'No members were selected';
+  END IF;
+
+  IF (SELECT count(*) FROM public.leaderboard_members WHERE id = ANY(_member_ids))
+    <> (SELECT count(DISTINCT id) FROM unnest(_member_ids) AS id) THEN
+    RAISE EXCEPTION 'Some of the selected members no longer exist';
+  END IF;
+END;
+$$;
+
+-- Add to or set the score of many members, each through the score ledger
+CREATE OR REPLACE FUNCTION public.bulk_adjust_scores(
+  _member_ids UUID[],
+  _kind public.score_event_kind,
+  _value INTEGER,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  adjusted_count INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  -- Hold rank updates until every score is in
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  INSERT INTO public.score_events (member_id, kind, value, reason)
+  SELECT m.id, _kind, _value, COALESCE(NULLIF(btrim(_reason), ''), 'Bulk adjustment')
+  FROM public.leaderboard_members m
+  WHERE m.id = ANY(_member_ids);
+
+  GET DIAGNOSTICS adjusted_count = ROW_COUNT;
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks();
+
+  RETURN adjusted_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_delete_members(_member_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  DELETE FROM public.leaderboard_members
+  WHERE id = ANY(_member_ids);
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks();
+
+  RETURN deleted_count;
+END;
+$$;
+
+-- Reassign members to another board, keeping their scores and history
+CREATE OR REPLACE FUNCTION public.bulk_move_members(_member_ids UUID[], _leaderboard_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  moved_count INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leaderboards WHERE id = _leaderboard_id) THEN
+    RAISE EXCEPTION 'Leaderboard % does not exist', _leaderboard_id;
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  -- Linked accounts and external ids are unique per board
+  IF EXISTS (
+    SELECT 1
+    FROM public.leaderboard_members moving
+    JOIN public.leaderboard_members existing
+      ON existing.leaderboard_id = _leaderboard_id
+      AND existing.id <> ALL(_member_ids)
+      AND (existing.profile_id = moving.profile_id OR existing.external_id = moving.external_id)
+    WHERE moving.id = ANY(_member_ids)
+  ) THEN
+    RAISE EXCEPTION 'Some of the selected members are already on that board';
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET leaderboard_id = _leaderboard_id
+  WHERE id = ANY(_member_ids)
+    AND leaderboard_id <> _leaderboard_id;
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks();
+
+  RETURN moved_count;
+END;
+$$;
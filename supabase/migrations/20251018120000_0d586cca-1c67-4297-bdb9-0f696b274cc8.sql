@@ -0,0 +1,372 @@
+-- Deleting a member moves it to the trash first, so mis-clicks can be undone.
+-- Trashed members keep their history but drop out of rankings and public
+-- views until they are restored or purged for good.
+ALTER TABLE public.leaderboard_members ADD COLUMN deleted_at TIMESTAMPTZ;
+
+CREATE INDEX idx_leaderboard_members_trash
+  ON public.leaderboard_members (leaderboard_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Only member managers see the trash
+DROP POLICY "Everyone can view members of visible boards" ON public.leaderboard_members;
+CREATE POLICY "Everyone can view members of visible boards" ON public.leaderboard_members
+  FOR SELECT TO authenticated
+  USING (
+    public.can_view_leaderboard(leaderboard_id)
+    AND (deleted_at IS NULL OR public.has_permission(auth.uid(), 'manage_members'))
+  );
+
+-- Moving members to and from the trash is member management
+CREATE OR REPLACE FUNCTION public.enforce_member_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Rank refreshes and server-side jobs are not user edits
+  IF current_setting('app.updating_ranks', true) = 'on' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.name IS DISTINCT FROM OLD.name OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND OLD.profile_id IS DISTINCT FROM auth.uid()
+    AND NOT public.has_permission(auth.uid(), 'edit_member_details') THEN
+    RAISE EXCEPTION 'You do not have permission to edit member details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.score IS DISTINCT FROM OLD.score OR NEW.secondary_score IS DISTINCT FROM OLD.secondary_score)
+    AND NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.leaderboard_id IS DISTINCT FROM OLD.leaderboard_id
+      OR NEW.external_id IS DISTINCT FROM OLD.external_id
+      OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at)
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    AND current_setting('app.claiming_member', true) IS DISTINCT FROM 'on'
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to link member accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same ordering as before, over the members that are not in the trash
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_ranks()
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- The UPDATE below fires the rank trigger again; only the outer call does work
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      m.id,
+      CASE b.rank_style
+        WHEN 'competition' THEN RANK() OVER by_score
+        WHEN 'dense' THEN DENSE_RANK() OVER by_score
+        ELSE ROW_NUMBER() OVER by_score_and_tie_breaker
+      END AS new_rank
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+    WHERE m.deleted_at IS NULL
+    WINDOW
+      by_score AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC
+      ),
+      by_score_and_tie_breaker AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC,
+          CASE WHEN b.tie_breaker = 'earliest_to_score' THEN m.score_reached_at END ASC,
+          CASE WHEN b.tie_breaker = 'secondary_score' THEN m.secondary_score END DESC NULLS LAST,
+          m.created_at ASC
+      )
+  ) AS ranked
+  WHERE leaderboard_members.id = ranked.id
+    AND leaderboard_members.rank IS DISTINCT FROM ranked.new_rank;
+
+  UPDATE public.leaderboard_members
+  SET rank = NULL
+  WHERE deleted_at IS NOT NULL
+    AND rank IS NOT NULL;
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_leaderboard_members(_leaderboard_id UUID, _query TEXT)
+RETURNS SETOF public.leaderboard_members
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT m.*
+  FROM public.leaderboard_members m
+  WHERE m.leaderboard_id = _leaderboard_id
+    AND m.deleted_at IS NULL
+    AND (
+      m.name ILIKE '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      OR extensions.word_similarity(lower(_query), lower(m.name)) >= 0.3
+    );
+$$;
+
+-- Trashed members are left out of the season snapshot and reset
+CREATE OR REPLACE FUNCTION public.close_season(
+  _leaderboard_id UUID,
+  _carry_over_percent INTEGER DEFAULT 0,
+  _next_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  closing public.seasons%ROWTYPE;
+  next_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close seasons';
+  END IF;
+
+  IF _carry_over_percent < 0 OR _carry_over_percent > 100 THEN
+    RAISE EXCEPTION 'Carry-over must be between 0 and 100 percent';
+  END IF;
+
+  SELECT * INTO closing
+  FROM public.seasons
+  WHERE leaderboard_id = _leaderboard_id
+    AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leaderboard % has no open season', _leaderboard_id;
+  END IF;
+
+  INSERT INTO public.season_standings (season_id, member_id, name, avatar_url, score, rank)
+  SELECT closing.id, m.id, m.name, m.avatar_url, m.score, COALESCE(m.rank, 0)
+  FROM public.leaderboard_members m
+  WHERE m.leaderboard_id = _leaderboard_id
+    AND m.deleted_at IS NULL;
+
+  UPDATE public.seasons
+  SET ended_at = now()
+  WHERE id = closing.id;
+
+  INSERT INTO public.seasons (leaderboard_id, number, name, carry_over_percent)
+  VALUES (
+    _leaderboard_id,
+    closing.number + 1,
+    COALESCE(NULLIF(trim(_next_name), ''), 'Season ' || (closing.number + 1)),
+    _carry_over_percent
+  )
+  RETURNING id INTO next_id;
+
+  -- Reset through the ledger so every member's history explains the new score
+  INSERT INTO public.score_events (member_id, kind, value, reason)
+  SELECT
+    m.id,
+    'absolute',
+    ROUND(m.score * _carry_over_percent / 100.0)::INTEGER,
+    closing.name || ' closed (' || _carry_over_percent || '% carried over)'
+  FROM public.leaderboard_members m
+  WHERE m.leaderboard_id = _leaderboard_id
+    AND m.deleted_at IS NULL;
+
+  RETURN next_id;
+END;
+$$;
+
+-- Importing a trashed member brings it back
+CREATE OR REPLACE FUNCTION public.import_members(_leaderboard_id UUID, _rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  r RECORD;
+  existing public.leaderboard_members%ROWTYPE;
+  inserted_count INTEGER := 0;
+  updated_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import members';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leaderboards WHERE id = _leaderboard_id) THEN
+    RAISE EXCEPTION 'Leaderboard % does not exist', _leaderboard_id;
+  END IF;
+
+  -- Hold rank updates until every row is in
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  FOR r IN
+    SELECT *
+    FROM jsonb_to_recordset(_rows) AS x(name TEXT, score INTEGER, avatar_url TEXT, external_id TEXT)
+  LOOP
+    IF r.name IS NULL OR trim(r.name) = '' THEN
+      RAISE EXCEPTION 'Every imported row needs a name';
+    END IF;
+
+    existing := NULL;
+
+    IF r.external_id IS NOT NULL THEN
+      SELECT * INTO existing
+      FROM public.leaderboard_members
+      WHERE leaderboard_id = _leaderboard_id
+        AND external_id = r.external_id;
+    END IF;
+
+    IF existing.id IS NULL THEN
+      SELECT * INTO existing
+      FROM public.leaderboard_members
+      WHERE leaderboard_id = _leaderboard_id
+        AND lower(trim(name)) = lower(trim(r.name))
+      ORDER BY created_at
+      LIMIT 1;
+    END IF;
+
+    IF existing.id IS NULL THEN
+      INSERT INTO public.leaderboard_members (leaderboard_id, name, score, avatar_url, external_id)
+      VALUES (_leaderboard_id, trim(r.name), COALESCE(r.score, 0), r.avatar_url, r.external_id);
+
+      inserted_count := inserted_count + 1;
+    ELSE
+      UPDATE public.leaderboard_members
+      SET
+        name = trim(r.name),
+        deleted_at = NULL,
+        avatar_url = COALESCE(r.avatar_url, existing.avatar_url),
+        external_id = COALESCE(r.external_id, existing.external_id)
+      WHERE id = existing.id;
+
+      IF r.score IS NOT NULL AND r.score <> existing.score THEN
+        INSERT INTO public.score_events (member_id, kind, value, reason)
+        VALUES (existing.id, 'absolute', r.score, 'Bulk import');
+      END IF;
+
+      updated_count := updated_count + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks();
+
+  RETURN jsonb_build_object('inserted', inserted_count, 'updated', updated_count);
+END;
+$$;
+
+-- Deleting in bulk now moves members to the trash
+CREATE OR REPLACE FUNCTION public.bulk_delete_members(_member_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  UPDATE public.leaderboard_members
+  SET deleted_at = now()
+  WHERE id = ANY(_member_ids)
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  RETURN deleted_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_members(_member_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  restored_count INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  UPDATE public.leaderboard_members
+  SET deleted_at = NULL
+  WHERE id = ANY(_member_ids)
+    AND deleted_at IS NOT NULL;
+
+  GET DIAGNOSTICS restored_count = ROW_COUNT;
+
+  RETURN restored_count;
+END;
+$$;
+
+-- Permanently delete members that are already in the trash
+CREATE OR REPLACE FUNCTION public.purge_members(_member_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  purged_count INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.leaderboard_members
+    WHERE id = ANY(_member_ids)
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Only members in the trash can be deleted permanently';
+  END IF;
+
+  DELETE FROM public.leaderboard_members
+  WHERE id = ANY(_member_ids);
+
+  GET DIAGNOSTICS purged_count = ROW_COUNT;
+
+  RETURN purged_count;
+END;
+$$;
+
+SELECT public.refresh_leaderboard_ranks();
@@ -0,0 +1,194 @@
+-- How a team's score is made from its members' scores
+CREATE TYPE public.team_scoring AS ENUM ('sum', 'average', 'top_n_sum');
+
+ALTER TABLE public.leaderboards
+  ADD COLUMN team_scoring team_scoring NOT NULL DEFAULT 'sum',
+  ADD COLUMN team_top_n INTEGER NOT NULL DEFAULT 3 CHECK (team_top_n > 0);
+
+-- Teams group the members of one board
+CREATE TABLE public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leaderboard_id UUID REFERENCES public.leaderboards(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (leaderboard_id, name)
+);
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A member is on at most one team
+ALTER TABLE public.leaderboard_members
+  ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_leaderboard_members_team ON public.leaderboard_members (team_id);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for teams
+CREATE POLICY "Everyone can view teams of visible boards" ON public.teams
+  FOR SELECT
+  USING (public.can_view_leaderboard(leaderboard_id));
+
+CREATE POLICY "Member managers can manage teams" ON public.teams
+  FOR ALL TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_members'));
+
+-- Members leave their team when they move to another board, and can only join
+-- teams on their own board
+CREATE OR REPLACE FUNCTION public.check_member_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.leaderboard_id IS DISTINCT FROM OLD.leaderboard_id
+    AND NEW.team_id IS NOT DISTINCT FROM OLD.team_id THEN
+    NEW.team_id := NULL;
+  END IF;
+
+  IF NEW.team_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.teams
+    WHERE id = NEW.team_id
+      AND leaderboard_id = NEW.leaderboard_id
+  ) THEN
+    RAISE EXCEPTION 'Members can only join teams on their own board';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_team_on_member_write
+  BEFORE INSERT OR UPDATE OF team_id, leaderboard_id ON public.leaderboard_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_member_team();
+
+-- Choosing teams is member management
+CREATE OR REPLACE FUNCTION public.enforce_member_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Rank refreshes and server-side jobs are not user edits
+  IF current_setting('app.updating_ranks', true) = 'on' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.name IS DISTINCT FROM OLD.name OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND OLD.profile_id IS DISTINCT FROM auth.uid()
+    AND NOT public.has_permission(auth.uid(), 'edit_member_details') THEN
+    RAISE EXCEPTION 'You do not have permission to edit member details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.score IS DISTINCT FROM OLD.score OR NEW.secondary_score IS DISTINCT FROM OLD.secondary_score)
+    AND NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.leaderboard_id IS DISTINCT FROM OLD.leaderboard_id
+      OR NEW.external_id IS DISTINCT FROM OLD.external_id
+      OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+      OR NEW.team_id IS DISTINCT FROM OLD.team_id)
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    AND current_setting('app.claiming_member', true) IS DISTINCT FROM 'on'
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to link member accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Teams ranked by their members' scores, using the board's team scoring,
+-- scoring direction and rank style. Members in the trash do not count, and
+-- teams without members are left out.
+CREATE OR REPLACE FUNCTION public.team_standings(_leaderboard_id UUID)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  score NUMERIC,
+  rank BIGINT,
+  member_count INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH placed AS (
+    -- Each member's place in its team, best score first
+    SELECT
+      m.team_id,
+      m.score,
+      m.updated_at,
+      ROW_NUMBER() OVER (
+        PARTITION BY m.team_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC
+      ) AS place
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+    WHERE m.leaderboard_id = _leaderboard_id
+      AND m.team_id IS NOT NULL
+      AND m.deleted_at IS NULL
+  ),
+  totals AS (
+    SELECT
+      t.id,
+      t.name,
+      CASE b.team_scoring
+        WHEN 'average' THEN round(avg(p.score), 2)
+        WHEN 'top_n_sum' THEN sum(p.score) FILTER (WHERE p.place <= b.team_top_n)
+        ELSE sum(p.score)
+      END AS score,
+      count(*)::INTEGER AS member_count,
+      greatest(t.updated_at, max(p.updated_at)) AS updated_at,
+      b.scoring_direction,
+      b.rank_style
+    FROM public.teams t
+    JOIN public.leaderboards b ON b.id = t.leaderboard_id
+    JOIN placed p ON p.team_id = t.id
+    GROUP BY t.id, b.id
+  )
+  SELECT
+    totals.id,
+    totals.name,
+    totals.score,
+    CASE totals.rank_style
+      WHEN 'competition' THEN RANK() OVER by_score
+      WHEN 'dense' THEN DENSE_RANK() OVER by_score
+      ELSE ROW_NUMBER() OVER by_score_and_name
+    END AS rank,
+    totals.member_count,
+    totals.updated_at
+  FROM totals
+  WINDOW
+    by_score AS (
+      ORDER BY
+        CASE WHEN totals.scoring_direction = 'lower_wins' THEN totals.score END ASC,
+        CASE WHEN totals.scoring_direction = 'higher_wins' THEN totals.score END DESC
+    ),
+    by_score_and_name AS (
+      ORDER BY
+        CASE WHEN totals.scoring_direction = 'lower_wins' THEN totals.score END ASC,
+        CASE WHEN totals.scoring_direction = 'higher_wins' THEN totals.score END DESC,
+        totals.name ASC
+    )
+  ORDER BY rank, totals.name;
+$$;
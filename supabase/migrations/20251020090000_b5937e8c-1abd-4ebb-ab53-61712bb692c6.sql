@@ -0,0 +1,226 @@
+-- What a member has to do to earn a badge:
+--   score_reached  score of at least `threshold`
+--   rank_held      ranked `threshold` or better for `days` days in a row
+--   season_finish  finished a closed season ranked `threshold` or better
+CREATE TYPE public.badge_rule AS ENUM ('score_reached', 'rank_held', 'season_finish');
+
+-- Badges are defined by admins, for one board or (without a board) for all of them
+CREATE TABLE public.badges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leaderboard_id UUID REFERENCES public.leaderboards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  icon TEXT NOT NULL DEFAULT 'award',
+  rule badge_rule NOT NULL,
+  threshold INTEGER NOT NULL,
+  days INTEGER NOT NULL DEFAULT 0 CHECK (days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CHECK (rule = 'score_reached' OR threshold > 0)
+);
+
+CREATE INDEX idx_badges_leaderboard ON public.badges (leaderboard_id);
+
+CREATE TRIGGER update_badges_updated_at
+  BEFORE UPDATE ON public.badges
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Badges members have earned; once awarded a badge is kept
+CREATE TABLE public.member_badges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  badge_id UUID REFERENCES public.badges(id) ON DELETE CASCADE NOT NULL,
+  member_id UUID REFERENCES public.leaderboard_members(id) ON DELETE CASCADE NOT NULL,
+  awarded_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (badge_id, member_id)
+);
+
+CREATE INDEX idx_member_badges_member ON public.member_badges (member_id);
+
+-- Since when each member has been ranked well enough for a rank_held badge
+CREATE TABLE public.badge_streaks (
+  badge_id UUID REFERENCES public.badges(id) ON DELETE CASCADE NOT NULL,
+  member_id UUID REFERENCES public.leaderboard_members(id) ON DELETE CASCADE NOT NULL,
+  since TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (badge_id, member_id)
+);
+
+ALTER TABLE public.badges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.member_badges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.badge_streaks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for badges
+CREATE POLICY "Everyone can view badges of visible boards" ON public.badges
+  FOR SELECT
+  USING (leaderboard_id IS NULL OR public.can_view_leaderboard(leaderboard_id));
+
+CREATE POLICY "Board managers can manage badges" ON public.badges
+  FOR ALL TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_boards'));
+
+-- Awarded badges are as visible as the member holding them, and only written by award_badges
+CREATE POLICY "Everyone can view badges of visible members" ON public.member_badges
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM public.leaderboard_members m
+    WHERE m.id = member_id
+  ));
+
+-- Award every badge whose rule a member now meets. Rank streaks are tracked
+-- here too, so a streak only counts from the first check that saw it.
+CREATE OR REPLACE FUNCTION public.award_badges()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- A streak ends as soon as the member drops below the badge's rank or leaves
+  -- its board. Ranks shared by the whole board, e.g. everyone on 0 after a
+  -- season reset, do not count.
+  DELETE FROM public.badge_streaks s
+  USING public.badges b, public.leaderboard_members m
+  WHERE b.id = s.badge_id
+    AND m.id = s.member_id
+    AND (m.rank IS NULL
+      OR m.rank > b.threshold
+      OR b.leaderboard_id <> m.leaderboard_id
+      OR NOT EXISTS (
+        SELECT 1
+        FROM public.leaderboard_members o
+        WHERE o.leaderboard_id = m.leaderboard_id
+          AND o.rank > m.rank
+      ));
+
+  INSERT INTO public.badge_streaks (badge_id, member_id)
+  SELECT b.id, m.id
+  FROM public.badges b
+  JOIN public.leaderboard_members m
+    ON b.leaderboard_id IS NULL OR b.leaderboard_id = m.leaderboard_id
+  WHERE b.rule = 'rank_held'
+    AND m.deleted_at IS NULL
+    AND m.rank <= b.threshold
+    AND EXISTS (
+      SELECT 1
+      FROM public.leaderboard_members o
+      WHERE o.leaderboard_id = m.leaderboard_id
+        AND o.rank > m.rank
+    )
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.member_badges (badge_id, member_id)
+  SELECT b.id, m.id
+  FROM public.badges b
+  JOIN public.leaderboard_members m
+    ON b.leaderboard_id IS NULL OR b.leaderboard_id = m.leaderboard_id
+  WHERE m.deleted_at IS NULL
+    AND CASE b.rule
+      WHEN 'score_reached' THEN m.score >= b.threshold
+      WHEN 'rank_held' THEN EXISTS (
+        SELECT 1
+        FROM public.badge_streaks s
+        WHERE s.badge_id = b.id
+          AND s.member_id = m.id
+          AND s.since <= now() - make_interval(days => b.days)
+      )
+      WHEN 'season_finish' THEN EXISTS (
+        SELECT 1
+        FROM public.season_standings st
+        WHERE st.member_id = m.id
+          AND st.rank <= b.threshold
+      )
+    END
+  ON CONFLICT (badge_id, member_id) DO NOTHING;
+END;
+$$;
+
+-- Every score or rank change is checked against the badges once ranks are settled
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_ranks()
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- The UPDATE below fires the rank trigger again; only the outer call does work
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      m.id,
+      CASE b.rank_style
+        WHEN 'competition' THEN RANK() OVER by_score
+        WHEN 'dense' THEN DENSE_RANK() OVER by_score
+        ELSE ROW_NUMBER() OVER by_score_and_tie_breaker
+      END AS new_rank
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+    WHERE m.deleted_at IS NULL
+    WINDOW
+      by_score AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC
+      ),
+      by_score_and_tie_breaker AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC,
+          CASE WHEN b.tie_breaker = 'earliest_to_score' THEN m.score_reached_at END ASC,
+          CASE WHEN b.tie_breaker = 'secondary_score' THEN m.secondary_score END DESC NULLS LAST,
+          m.created_at ASC
+      )
+  ) AS ranked
+  WHERE leaderboard_members.id = ranked.id
+    AND leaderboard_members.rank IS DISTINCT FROM ranked.new_rank;
+
+  UPDATE public.leaderboard_members
+  SET rank = NULL
+  WHERE deleted_at IS NOT NULL
+    AND rank IS NOT NULL;
+
+  PERFORM public.award_badges();
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+END;
+$$;
+
+-- New or changed badges go to everyone who already qualifies
+CREATE OR REPLACE FUNCTION public.award_changed_badges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.award_badges();
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER award_badges_on_badge_change
+  AFTER INSERT OR UPDATE ON public.badges
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.award_changed_badges();
+
+-- Streaks can complete while nothing changes; check hourly where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('award-badges', '0 * * * *', 'SELECT public.award_badges()');
+  END IF;
+END;
+$$;
+
+-- The achievements profiles used to work out on the fly, as badges for every board
+INSERT INTO public.badges (name, description, icon, rule, threshold) VALUES
+  ('Leader', 'Reached #1 on a leaderboard', 'crown', 'rank_held', 1),
+  ('Season Champion', 'Finished a season in first place', 'trophy', 'season_finish', 1),
+  ('Podium Finish', 'Finished a season in the top 3', 'medal', 'season_finish', 3);
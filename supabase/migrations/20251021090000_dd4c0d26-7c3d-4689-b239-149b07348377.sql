@@ -0,0 +1,160 @@
+-- What rank movement on a board is measured against: the ranks at the start
+-- of the day, or the ranks the viewer saw on their last visit
+CREATE TYPE public.rank_checkpoint AS ENUM ('daily', 'last_visit');
+
+ALTER TABLE public.leaderboards
+  ADD COLUMN rank_checkpoint rank_checkpoint NOT NULL DEFAULT 'daily';
+
+-- Every ranked member's rank at the start of each day, kept for 30 days
+CREATE TABLE public.rank_snapshots (
+  member_id UUID REFERENCES public.leaderboard_members(id) ON DELETE CASCADE NOT NULL,
+  leaderboard_id UUID REFERENCES public.leaderboards(id) ON DELETE CASCADE NOT NULL,
+  rank INTEGER NOT NULL,
+  taken_on DATE NOT NULL DEFAULT current_date,
+  PRIMARY KEY (member_id, taken_on)
+);
+
+CREATE INDEX idx_rank_snapshots_board_day ON public.rank_snapshots (leaderboard_id, taken_on);
+
+ALTER TABLE public.rank_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for rank snapshots; they are only written by snapshot_ranks
+CREATE POLICY "Everyone can view rank snapshots of visible boards" ON public.rank_snapshots
+  FOR SELECT
+  USING (public.can_view_leaderboard(leaderboard_id));
+
+-- Record today's ranks unless that has been done already. Run before ranks
+-- change, so the first change of a day captures the ranks it started with.
+CREATE OR REPLACE FUNCTION public.snapshot_ranks()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.rank_snapshots WHERE taken_on = current_date) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rank_snapshots (member_id, leaderboard_id, rank)
+  SELECT id, leaderboard_id, rank
+  FROM public.leaderboard_members
+  WHERE deleted_at IS NULL
+    AND rank IS NOT NULL
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.rank_snapshots
+  WHERE taken_on < current_date - 30;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_ranks()
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- The UPDATE below fires the rank trigger again; only the outer call does work
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  PERFORM public.snapshot_ranks();
+
+  UPDATE public.leaderboard_members
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      m.id,
+      CASE b.rank_style
+        WHEN 'competition' THEN RANK() OVER by_score
+        WHEN 'dense' THEN DENSE_RANK() OVER by_score
+        ELSE ROW_NUMBER() OVER by_score_and_tie_breaker
+      END AS new_rank
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+    WHERE m.deleted_at IS NULL
+    WINDOW
+      by_score AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC
+      ),
+      by_score_and_tie_breaker AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC,
+          CASE WHEN b.tie_breaker = 'earliest_to_score' THEN m.score_reached_at END ASC,
+          CASE WHEN b.tie_breaker = 'secondary_score' THEN m.secondary_score END DESC NULLS LAST,
+          m.created_at ASC
+      )
+  ) AS ranked
+  WHERE leaderboard_members.id = ranked.id
+    AND leaderboard_members.rank IS DISTINCT FROM ranked.new_rank;
+
+  UPDATE public.leaderboard_members
+  SET rank = NULL
+  WHERE deleted_at IS NOT NULL
+    AND rank IS NOT NULL;
+
+  PERFORM public.award_badges();
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+END;
+$$;
+
+-- Each member's rank at the first snapshot on or after a day; members who
+-- joined later have none
+CREATE OR REPLACE FUNCTION public.checkpoint_ranks(_leaderboard_id UUID, _since DATE)
+RETURNS TABLE (
+  member_id UUID,
+  rank INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT DISTINCT ON (s.member_id) s.member_id, s.rank
+  FROM public.rank_snapshots s
+  WHERE s.leaderboard_id = _leaderboard_id
+    AND s.taken_on >= _since
+  ORDER BY s.member_id, s.taken_on ASC;
+$$;
+
+-- Members who gained the most places since a day, most places first
+CREATE OR REPLACE FUNCTION public.rank_climbers(_leaderboard_id UUID, _since DATE, _limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  avatar_url TEXT,
+  score INTEGER,
+  rank INTEGER,
+  previous_rank INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT m.id, m.name, m.avatar_url, m.score, m.rank, c.rank AS previous_rank, m.updated_at
+  FROM public.checkpoint_ranks(_leaderboard_id, _since) c
+  JOIN public.leaderboard_members m ON m.id = c.member_id
+  WHERE m.leaderboard_id = _leaderboard_id
+    AND m.deleted_at IS NULL
+    AND m.rank < c.rank
+  ORDER BY c.rank - m.rank DESC, m.rank ASC
+  LIMIT _limit;
+$$;
+
+-- Quiet days still get a snapshot where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('snapshot-ranks', '0 0 * * *', 'SELECT public.snapshot_ranks()');
+  END IF;
+END;
+$$;
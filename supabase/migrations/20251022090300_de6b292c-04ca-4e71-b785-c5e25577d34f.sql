@@ -0,0 +1,62 @@
+-- Linked users may update their own member row, and the checks below only
+-- named some columns, so they could also rewrite the tie-breakers
+-- (score_reached_at, created_at) and win every tie. Columns are now allowed by
+-- name: a linked user changes only the name and avatar, and anything not
+-- listed, including columns added later, is member management.
+CREATE OR REPLACE FUNCTION public.enforce_member_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Server-side jobs are not user edits
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Ranks are only written by refresh_leaderboard_ranks
+  IF NEW.rank IS DISTINCT FROM OLD.rank
+    AND current_setting('app.updating_ranks', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Ranks are calculated from scores and cannot be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.name IS DISTINCT FROM OLD.name OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND OLD.profile_id IS DISTINCT FROM auth.uid()
+    AND NOT public.has_permission(auth.uid(), 'edit_member_details') THEN
+    RAISE EXCEPTION 'You do not have permission to edit member details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.score IS DISTINCT FROM OLD.score
+      OR NEW.secondary_score IS DISTINCT FROM OLD.secondary_score
+      OR NEW.score_reached_at IS DISTINCT FROM OLD.score_reached_at)
+    AND NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    AND current_setting('app.claiming_member', true) IS DISTINCT FROM 'on'
+    AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to link member accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Board, external id, trash, team, id and created_at; updated_at is set by
+  -- its own trigger after this one
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_each(to_jsonb(NEW)) AS changed
+    WHERE changed.key NOT IN (
+        'name', 'avatar_url', 'score', 'secondary_score', 'score_reached_at', 'rank', 'profile_id', 'updated_at'
+      )
+      AND changed.value IS DISTINCT FROM to_jsonb(OLD) -> changed.key
+  ) AND NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
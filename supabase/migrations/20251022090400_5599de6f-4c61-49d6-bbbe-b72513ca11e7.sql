@@ -0,0 +1,209 @@
+-- Badges used to be checked for every member of every board on each write.
+-- Member writes now pass the boards they touched, read from the statement's
+-- transition tables, and only those boards are checked; the hourly job and
+-- badge changes still check everything.
+DROP FUNCTION public.award_badges();
+
+-- Award every badge whose rule a member now meets, on the given boards or on
+-- all of them. Rank streaks are tracked here too, so a streak only counts from
+-- the first check that saw it.
+CREATE OR REPLACE FUNCTION public.award_badges(_leaderboard_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- A streak ends as soon as the member drops below the badge's rank or leaves
+  -- its board. A rank the whole board shares, e.g. everyone on 0 after a
+  -- season reset, does not count; a member alone on a board does.
+  WITH tied_boards AS (
+    SELECT leaderboard_id
+    FROM public.leaderboard_members
+    WHERE rank IS NOT NULL
+      AND (_leaderboard_ids IS NULL OR leaderboard_id = ANY(_leaderboard_ids))
+    GROUP BY leaderboard_id
+    HAVING count(*) > 1 AND count(DISTINCT rank) = 1
+  )
+  DELETE FROM public.badge_streaks s
+  USING public.badges b, public.leaderboard_members m
+  WHERE b.id = s.badge_id
+    AND m.id = s.member_id
+    AND (_leaderboard_ids IS NULL OR m.leaderboard_id = ANY(_leaderboard_ids))
+    AND (m.rank IS NULL
+      OR m.rank > b.threshold
+      OR b.leaderboard_id <> m.leaderboard_id
+      OR m.leaderboard_id IN (SELECT leaderboard_id FROM tied_boards));
+
+  WITH tied_boards AS (
+    SELECT leaderboard_id
+    FROM public.leaderboard_members
+    WHERE rank IS NOT NULL
+      AND (_leaderboard_ids IS NULL OR leaderboard_id = ANY(_leaderboard_ids))
+    GROUP BY leaderboard_id
+    HAVING count(*) > 1 AND count(DISTINCT rank) = 1
+  )
+  INSERT INTO public.badge_streaks (badge_id, member_id)
+  SELECT b.id, m.id
+  FROM public.badges b
+  JOIN public.leaderboard_members m
+    ON b.leaderboard_id IS NULL OR b.leaderboard_id = m.leaderboard_id
+  WHERE b.rule = 'rank_held'
+    AND (_leaderboard_ids IS NULL OR m.leaderboard_id = ANY(_leaderboard_ids))
+    AND m.deleted_at IS NULL
+    AND m.rank <= b.threshold
+    AND m.leaderboard_id NOT IN (SELECT leaderboard_id FROM tied_boards)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.member_badges (badge_id, member_id)
+  SELECT b.id, m.id
+  FROM public.badges b
+  JOIN public.leaderboard_members m
+    ON b.leaderboard_id IS NULL OR b.leaderboard_id = m.leaderboard_id
+  WHERE (_leaderboard_ids IS NULL OR m.leaderboard_id = ANY(_leaderboard_ids))
+    AND m.deleted_at IS NULL
+    AND CASE b.rule
+      WHEN 'score_reached' THEN m.score >= b.threshold
+      WHEN 'rank_held' THEN EXISTS (
+        SELECT 1
+        FROM public.badge_streaks s
+        WHERE s.badge_id = b.id
+          AND s.member_id = m.id
+          AND s.since <= now() - make_interval(days => b.days)
+      )
+      WHEN 'season_finish' THEN EXISTS (
+        SELECT 1
+        FROM public.season_standings st
+        WHERE st.member_id = m.id
+          AND st.rank <= b.threshold
+      )
+    END
+  ON CONFLICT (badge_id, member_id) DO NOTHING;
+END;
+$$;
+
+DROP FUNCTION public.refresh_leaderboard_ranks();
+
+-- Ranks are still refreshed on every board; badges only on the boards given
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_ranks(_leaderboard_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- The UPDATE below fires the rank trigger again; only the outer call does work
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  PERFORM public.snapshot_ranks();
+
+  UPDATE public.leaderboard_members
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      m.id,
+      CASE b.rank_style
+        WHEN 'competition' THEN RANK() OVER by_score
+        WHEN 'dense' THEN DENSE_RANK() OVER by_score
+        ELSE ROW_NUMBER() OVER by_score_and_tie_breaker
+      END AS new_rank
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+    WHERE m.deleted_at IS NULL
+    WINDOW
+      by_score AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC
+      ),
+      by_score_and_tie_breaker AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC,
+          CASE WHEN b.tie_breaker = 'earliest_to_score' THEN m.score_reached_at END ASC,
+          CASE WHEN b.tie_breaker = 'secondary_score' THEN m.secondary_score END DESC NULLS LAST,
+          m.created_at ASC
+      )
+  ) AS ranked
+  WHERE leaderboard_members.id = ranked.id
+    AND leaderboard_members.rank IS DISTINCT FROM ranked.new_rank;
+
+  UPDATE public.leaderboard_members
+  SET rank = NULL
+  WHERE deleted_at IS NOT NULL
+    AND rank IS NOT NULL;
+
+  PERFORM public.award_badges(_leaderboard_ids);
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+END;
+$$;
+
+-- Member writes pass on the boards their rows were on before and after
+CREATE OR REPLACE FUNCTION public.update_leaderboard_ranks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  changed_boards UUID[];
+BEGIN
+  -- Batch writers refresh once themselves when they are done, and the
+  -- refresh's own rank writes need no second pass
+  IF current_setting('app.deferring_ranks', true) = 'on'
+    OR current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Board settings triggers have no transition tables; re-check every board
+  IF TG_TABLE_NAME <> 'leaderboard_members' THEN
+    PERFORM public.refresh_leaderboard_ranks();
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT array_agg(DISTINCT leaderboard_id) INTO changed_boards FROM new_members;
+  ELSIF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(DISTINCT leaderboard_id) INTO changed_boards
+    FROM (
+      SELECT leaderboard_id FROM old_members
+      UNION
+      SELECT leaderboard_id FROM new_members
+    ) AS touched;
+  ELSE
+    SELECT array_agg(DISTINCT leaderboard_id) INTO changed_boards FROM old_members;
+  END IF;
+
+  -- Statements that matched no rows change nothing
+  IF changed_boards IS NOT NULL THEN
+    PERFORM public.refresh_leaderboard_ranks(changed_boards);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER update_ranks_on_score_change ON public.leaderboard_members;
+
+CREATE TRIGGER update_ranks_on_member_insert
+  AFTER INSERT ON public.leaderboard_members
+  REFERENCING NEW TABLE AS new_members
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.update_leaderboard_ranks();
+
+CREATE TRIGGER update_ranks_on_member_update
+  AFTER UPDATE ON public.leaderboard_members
+  REFERENCING OLD TABLE AS old_members NEW TABLE AS new_members
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.update_leaderboard_ranks();
+
+CREATE TRIGGER update_ranks_on_member_delete
+  AFTER DELETE ON public.leaderboard_members
+  REFERENCING OLD TABLE AS old_members
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.update_leaderboard_ranks();
@@ -0,0 +1,10 @@
+-- Rank refreshes rewrite the rank of every member whose place shifted, which
+-- used to bump their updated_at too, so one score change reshuffled the
+-- "last updated" sort and export column. Only changes to other columns count now.
+DROP TRIGGER update_leaderboard_members_updated_at ON public.leaderboard_members;
+
+CREATE TRIGGER update_leaderboard_members_updated_at
+  BEFORE UPDATE ON public.leaderboard_members
+  FOR EACH ROW
+  WHEN ((to_jsonb(OLD) - 'rank' - 'updated_at') IS DISTINCT FROM (to_jsonb(NEW) - 'rank' - 'updated_at'))
+  EXECUTE FUNCTION public.update_updated_at_column();
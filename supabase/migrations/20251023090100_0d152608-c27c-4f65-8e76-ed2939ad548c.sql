@@ -0,0 +1,242 @@
+-- The refresh re-ranked every board even when given the boards that changed,
+-- and the batch operations asked for a full refresh. Ranks are now only
+-- recomputed on the given boards, and each batch passes the boards it wrote
+-- to. Restores, purges and season closes already reach the refresh through
+-- the member trigger, which passes the boards of the rows they changed.
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_ranks(_leaderboard_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- The UPDATE below fires the rank trigger again; only the outer call does work
+  IF current_setting('app.updating_ranks', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.updating_ranks', 'on', true);
+
+  PERFORM public.snapshot_ranks();
+
+  UPDATE public.leaderboard_members
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      m.id,
+      CASE b.rank_style
+        WHEN 'competition' THEN RANK() OVER by_score
+        WHEN 'dense' THEN DENSE_RANK() OVER by_score
+        ELSE ROW_NUMBER() OVER by_score_and_tie_breaker
+      END AS new_rank
+    FROM public.leaderboard_members m
+    JOIN public.leaderboards b ON b.id = m.leaderboard_id
+    WHERE m.deleted_at IS NULL
+      AND (_leaderboard_ids IS NULL OR m.leaderboard_id = ANY(_leaderboard_ids))
+    WINDOW
+      by_score AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC
+      ),
+      by_score_and_tie_breaker AS (
+        PARTITION BY m.leaderboard_id
+        ORDER BY
+          CASE WHEN b.scoring_direction = 'lower_wins' THEN m.score END ASC,
+          CASE WHEN b.scoring_direction = 'higher_wins' THEN m.score END DESC,
+          CASE WHEN b.tie_breaker = 'earliest_to_score' THEN m.score_reached_at END ASC,
+          CASE WHEN b.tie_breaker = 'secondary_score' THEN m.secondary_score END DESC NULLS LAST,
+          m.created_at ASC
+      )
+  ) AS ranked
+  WHERE leaderboard_members.id = ranked.id
+    AND leaderboard_members.rank IS DISTINCT FROM ranked.new_rank;
+
+  UPDATE public.leaderboard_members
+  SET rank = NULL
+  WHERE deleted_at IS NOT NULL
+    AND rank IS NOT NULL
+    AND (_leaderboard_ids IS NULL OR leaderboard_id = ANY(_leaderboard_ids));
+
+  PERFORM public.award_badges(_leaderboard_ids);
+
+  PERFORM set_config('app.updating_ranks', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_adjust_scores(
+  _member_ids UUID[],
+  _kind public.score_event_kind,
+  _value INTEGER,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  adjusted_count INTEGER;
+  touched_boards UUID[];
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'adjust_scores') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust scores'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  SELECT array_agg(DISTINCT leaderboard_id) INTO touched_boards
+  FROM public.leaderboard_members
+  WHERE id = ANY(_member_ids);
+
+  -- Hold rank updates until every score is in
+  PERFORM set_config('app.deferring_ranks', 'on', true);
+
+  INSERT INTO public.score_events (member_id, kind, value, reason)
+  SELECT m.id, _kind, _value, COALESCE(NULLIF(btrim(_reason), ''), 'Bulk adjustment')
+  FROM public.leaderboard_members m
+  WHERE m.id = ANY(_member_ids);
+
+  GET DIAGNOSTICS adjusted_count = ROW_COUNT;
+
+  PERFORM set_config('app.deferring_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks(touched_boards);
+
+  RETURN adjusted_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_move_members(_member_ids UUID[], _leaderboard_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  moved_count INTEGER;
+  touched_boards UUID[];
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leaderboards WHERE id = _leaderboard_id) THEN
+    RAISE EXCEPTION 'Leaderboard % does not exist', _leaderboard_id;
+  END IF;
+
+  PERFORM public.assert_members_exist(_member_ids);
+
+  -- Linked accounts and external ids are unique per board
+  IF EXISTS (
+    SELECT 1
+    FROM public.leaderboard_members moving
+    JOIN public.leaderboard_members existing
+      ON existing.leaderboard_id = _leaderboard_id
+      AND existing.id <> ALL(_member_ids)
+      AND (existing.profile_id = moving.profile_id OR existing.external_id = moving.external_id)
+    WHERE moving.id = ANY(_member_ids)
+  ) THEN
+    RAISE EXCEPTION 'Some of the selected members are already on that board';
+  END IF;
+
+  -- The boards the members leave, and the one they join
+  SELECT array_agg(DISTINCT leaderboard_id) || _leaderboard_id INTO touched_boards
+  FROM public.leaderboard_members
+  WHERE id = ANY(_member_ids);
+
+  PERFORM set_config('app.deferring_ranks', 'on', true);
+
+  UPDATE public.leaderboard_members
+  SET leaderboard_id = _leaderboard_id
+  WHERE id = ANY(_member_ids)
+    AND leaderboard_id <> _leaderboard_id;
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  PERFORM set_config('app.deferring_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks(touched_boards);
+
+  RETURN moved_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_members(_leaderboard_id UUID, _rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  r RECORD;
+  existing public.leaderboard_members%ROWTYPE;
+  inserted_count INTEGER := 0;
+  updated_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import members';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leaderboards WHERE id = _leaderboard_id) THEN
+    RAISE EXCEPTION 'Leaderboard % does not exist', _leaderboard_id;
+  END IF;
+
+  -- Hold rank updates until every row is in
+  PERFORM set_config('app.deferring_ranks', 'on', true);
+
+  FOR r IN
+    SELECT *
+    FROM jsonb_to_recordset(_rows) AS x(name TEXT, score INTEGER, avatar_url TEXT, external_id TEXT)
+  LOOP
+    IF r.name IS NULL OR trim(r.name) = '' THEN
+      RAISE EXCEPTION 'Every imported row needs a name';
+    END IF;
+
+    existing := NULL;
+
+    IF r.external_id IS NOT NULL THEN
+      SELECT * INTO existing
+      FROM public.leaderboard_members
+      WHERE leaderboard_id = _leaderboard_id
+        AND external_id = r.external_id;
+    END IF;
+
+    IF existing.id IS NULL THEN
+      SELECT * INTO existing
+      FROM public.leaderboard_members
+      WHERE leaderboard_id = _leaderboard_id
+        AND lower(trim(name)) = lower(trim(r.name))
+      ORDER BY created_at
+      LIMIT 1;
+    END IF;
+
+    IF existing.id IS NULL THEN
+      INSERT INTO public.leaderboard_members (leaderboard_id, name, score, avatar_url, external_id)
+      VALUES (_leaderboard_id, trim(r.name), COALESCE(r.score, 0), r.avatar_url, r.external_id);
+
+      inserted_count := inserted_count + 1;
+    ELSE
+      UPDATE public.leaderboard_members
+      SET
+        name = trim(r.name),
+        deleted_at = NULL,
+        avatar_url = COALESCE(r.avatar_url, existing.avatar_url),
+        external_id = COALESCE(r.external_id, existing.external_id)
+      WHERE id = existing.id;
+
+      IF r.score IS NOT NULL AND r.score <> existing.score THEN
+        INSERT INTO public.score_events (member_id, kind, value, reason)
+        VALUES (existing.id, 'absolute', r.score, 'Bulk import');
+      END IF;
+
+      updated_count := updated_count + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.deferring_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks(ARRAY[_leaderboard_id]);
+
+  RETURN jsonb_build_object('inserted', inserted_count, 'updated', updated_count);
+END;
+$$;
@@ -0,0 +1,81 @@
+-- Imports are checked against the manage_members permission, like the bulk
+-- operations and the trash, instead of requiring the admin role
+CREATE OR REPLACE FUNCTION public.import_members(_leaderboard_id UUID, _rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  r RECORD;
+  existing public.leaderboard_members%ROWTYPE;
+  inserted_count INTEGER := 0;
+  updated_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to manage members'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leaderboards WHERE id = _leaderboard_id) THEN
+    RAISE EXCEPTION 'Leaderboard % does not exist', _leaderboard_id;
+  END IF;
+
+  -- Hold rank updates until every row is in
+  PERFORM set_config('app.deferring_ranks', 'on', true);
+
+  FOR r IN
+    SELECT *
+    FROM jsonb_to_recordset(_rows) AS x(name TEXT, score INTEGER, avatar_url TEXT, external_id TEXT)
+  LOOP
+    IF r.name IS NULL OR trim(r.name) = '' THEN
+      RAISE EXCEPTION 'Every imported row needs a name';
+    END IF;
+
+    existing := NULL;
+
+    IF r.external_id IS NOT NULL THEN
+      SELECT * INTO existing
+      FROM public.leaderboard_members
+      WHERE leaderboard_id = _leaderboard_id
+        AND external_id = r.external_id;
+    END IF;
+
+    IF existing.id IS NULL THEN
+      SELECT * INTO existing
+      FROM public.leaderboard_members
+      WHERE leaderboard_id = _leaderboard_id
+        AND lower(trim(name)) = lower(trim(r.name))
+      ORDER BY created_at
+      LIMIT 1;
+    END IF;
+
+    IF existing.id IS NULL THEN
+      INSERT INTO public.leaderboard_members (leaderboard_id, name, score, avatar_url, external_id)
+      VALUES (_leaderboard_id, trim(r.name), COALESCE(r.score, 0), r.avatar_url, r.external_id);
+
+      inserted_count := inserted_count + 1;
+    ELSE
+      UPDATE public.leaderboard_members
+      SET
+        name = trim(r.name),
+        deleted_at = NULL,
+        avatar_url = COALESCE(r.avatar_url, existing.avatar_url),
+        external_id = COALESCE(r.external_id, existing.external_id)
+      WHERE id = existing.id;
+
+      IF r.score IS NOT NULL AND r.score <> existing.score THEN
+        INSERT INTO public.score_events (member_id, kind, value, reason)
+        VALUES (existing.id, 'absolute', r.score, 'Bulk import');
+      END IF;
+
+      updated_count := updated_count + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.deferring_ranks', 'off', true);
+  PERFORM public.refresh_leaderboard_ranks(ARRAY[_leaderboard_id]);
+
+  RETURN jsonb_build_object('inserted', inserted_count, 'updated', updated_count);
+END;
+$$;
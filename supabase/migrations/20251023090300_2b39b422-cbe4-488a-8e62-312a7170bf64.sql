@@ -0,0 +1,80 @@
+-- Season finishes only counted toward a badge from the badge's own board, and
+-- members closed out unranked, stored with rank 0, no longer qualify for every
+-- finish badge.
+CREATE OR REPLACE FUNCTION public.award_badges(_leaderboard_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- A streak ends as soon as the member drops below the badge's rank or leaves
+  -- its board. A rank the whole board shares, e.g. everyone on 0 after a
+  -- season reset, does not count; a member alone on a board does.
+  WITH tied_boards AS (
+    SELECT leaderboard_id
+    FROM public.leaderboard_members
+    WHERE rank IS NOT NULL
+      AND (_leaderboard_ids IS NULL OR leaderboard_id = ANY(_leaderboard_ids))
+    GROUP BY leaderboard_id
+    HAVING count(*) > 1 AND count(DISTINCT rank) = 1
+  )
+  DELETE FROM public.badge_streaks s
+  USING public.badges b, public.leaderboard_members m
+  WHERE b.id = s.badge_id
+    AND m.id = s.member_id
+    AND (_leaderboard_ids IS NULL OR m.leaderboard_id = ANY(_leaderboard_ids))
+    AND (m.rank IS NULL
+      OR m.rank > b.threshold
+      OR b.leaderboard_id <> m.leaderboard_id
+      OR m.leaderboard_id IN (SELECT leaderboard_id FROM tied_boards));
+
+  WITH tied_boards AS (
+    SELECT leaderboard_id
+    FROM public.leaderboard_members
+    WHERE rank IS NOT NULL
+      AND (_leaderboard_ids IS NULL OR leaderboard_id = ANY(_leaderboard_ids))
+    GROUP BY leaderboard_id
+    HAVING count(*) > 1 AND count(DISTINCT rank) = 1
+  )
+  INSERT INTO public.badge_streaks (badge_id, member_id)
+  SELECT b.id, m.id
+  FROM public.badges b
+  JOIN public.leaderboard_members m
+    ON b.leaderboard_id IS NULL OR b.leaderboard_id = m.leaderboard_id
+  WHERE b.rule = 'rank_held'
+    AND (_leaderboard_ids IS NULL OR m.leaderboard_id = ANY(_leaderboard_ids))
+    AND m.deleted_at IS NULL
+    AND m.rank <= b.threshold
+    AND m.leaderboard_id NOT IN (SELECT leaderboard_id FROM tied_boards)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.member_badges (badge_id, member_id)
+  SELECT b.id, m.id
+  FROM public.badges b
+  JOIN public.leaderboard_members m
+    ON b.leaderboard_id IS NULL OR b.leaderboard_id = m.leaderboard_id
+  WHERE (_leaderboard_ids IS NULL OR m.leaderboard_id = ANY(_leaderboard_ids))
+    AND m.deleted_at IS NULL
+    AND CASE b.rule
+      WHEN 'score_reached' THEN m.score >= b.threshold
+      WHEN 'rank_held' THEN EXISTS (
+        SELECT 1
+        FROM public.badge_streaks s
+        WHERE s.badge_id = b.id
+          AND s.member_id = m.id
+          AND s.since <= now() - make_interval(days => b.days)
+      )
+      WHEN 'season_finish' THEN EXISTS (
+        SELECT 1
+        FROM public.season_standings st
+        JOIN public.seasons se ON se.id = st.season_id
+        WHERE st.member_id = m.id
+          AND st.rank > 0
+          AND st.rank <= b.threshold
+          AND (b.leaderboard_id IS NULL OR se.leaderboard_id = b.leaderboard_id)
+      )
+    END
+  ON CONFLICT (badge_id, member_id) DO NOTHING;
+END;
+$$;
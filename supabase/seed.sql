@@ -0,0 +1,77 @@
+-- Sample data for a local stack, loaded by `supabase db reset` after the
+-- migrations. The migrations already create the "Skill Up" board and its
+-- members; this adds sign-in accounts for each role, a private board and a
+-- pending score claim so every screen has something to show.
+--
+-- Every account's password is "password123".
+
+-- Accounts (handle_new_user creates their profiles and default 'user' role)
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change, email_change_token_new
+)
+SELECT
+  '00000000-0000-0000-0000-000000000000',
+  account.id,
+  'authenticated',
+  'authenticated',
+  account.email,
+  extensions.crypt('password123', extensions.gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}',
+  jsonb_build_object('full_name', account.full_name),
+  now(),
+  now(),
+  '', '', '', ''
+FROM (VALUES
+  ('00000000-0000-4000-8000-000000000001'::UUID, 'admin@example.com', 'Ada Admin'),
+  ('00000000-0000-4000-8000-000000000002'::UUID, 'moderator@example.com', 'Mo Moderator'),
+  ('00000000-0000-4000-8000-000000000003'::UUID, 'scorekeeper@example.com', 'Sam Scorekeeper'),
+  ('00000000-0000-4000-8000-000000000004'::UUID, 'viewer@example.com', 'Vic Viewer'),
+  ('00000000-0000-4000-8000-000000000005'::UUID, 'jordyn@example.com', 'Jordyn Kenter')
+) AS account (id, email, full_name);
+
+INSERT INTO auth.identities (id, user_id, provider_id, provider, identity_data, last_sign_in_at, created_at, updated_at)
+SELECT
+  gen_random_uuid(),
+  u.id,
+  u.id::TEXT,
+  'email',
+  jsonb_build_object('sub', u.id::TEXT, 'email', u.email, 'email_verified', true),
+  now(),
+  now(),
+  now()
+FROM auth.users u
+WHERE u.email LIKE '%@example.com';
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'admin'),
+  ('00000000-0000-4000-8000-000000000002', 'moderator'),
+  ('00000000-0000-4000-8000-000000000003', 'scorekeeper'),
+  ('00000000-0000-4000-8000-000000000004', 'viewer');
+
+-- The player account owns its member row on the main board
+UPDATE public.leaderboard_members
+SET profile_id = '00000000-0000-4000-8000-000000000005'
+WHERE name = 'Jordyn Kenter'
+  AND leaderboard_id = (SELECT id FROM public.leaderboards WHERE slug = 'main');
+
+-- A private board only staff can see (create_initial_season opens Season 1)
+INSERT INTO public.leaderboards (name, slug, description, is_private, scoring_direction, rank_style)
+VALUES ('Staff Speedrun', 'staff-speedrun', 'Fastest lap times in seconds. Lowest wins.', true, 'lower_wins', 'dense');
+
+INSERT INTO public.leaderboard_members (leaderboard_id, name, score)
+SELECT (SELECT id FROM public.leaderboards WHERE slug = 'staff-speedrun'), member.name, member.score
+FROM (VALUES
+  ('Ada Admin', 312),
+  ('Mo Moderator', 298),
+  ('Sam Scorekeeper', 298),
+  ('Vic Viewer', 355)
+) AS member (name, score);
+
+-- A claim waiting in the admin review queue
+INSERT INTO public.score_claims (member_id, kind, value, note, submitted_by)
+SELECT m.id, 'delta', 1500, 'Won the Friday match 3-1', m.profile_id
+FROM public.leaderboard_members m
+WHERE m.profile_id = '00000000-0000-4000-8000-000000000005';